@@ -0,0 +1,108 @@
+import { expect, describe, it } from "vitest";
+import { APICallError, LoadAPIKeyError } from "@ai-sdk/provider";
+import { createApiKeyPool } from "./api-key-pool";
+
+const KEYS = ["key-a", "key-b", "key-c"];
+
+function apiError(statusCode: number, headers?: Record<string, string>) {
+  return new APICallError({
+    message: `Status ${statusCode}`,
+    url: "https://example.com",
+    requestBodyValues: {},
+    statusCode,
+    responseHeaders: headers,
+  });
+}
+
+describe("round-robin", () => {
+  it("should rotate through the keys", () => {
+    const pool = createApiKeyPool({ selection: "round-robin" });
+
+    expect([1, 2, 3, 4].map(() => pool.select(KEYS))).toStrictEqual([
+      "key-a",
+      "key-b",
+      "key-c",
+      "key-a",
+    ]);
+  });
+
+  it("should skip keys that are cooling down", () => {
+    const pool = createApiKeyPool({ selection: "round-robin" });
+
+    expect(pool.reportError("key-b", apiError(429))).toBe(true);
+
+    expect([1, 2, 3].map(() => pool.select(KEYS))).toStrictEqual([
+      "key-a",
+      "key-c",
+      "key-a",
+    ]);
+  });
+
+  it("should use the key that recovers first when all keys cool down", () => {
+    const pool = createApiKeyPool({ cooldownMs: 60000 });
+
+    pool.reportError("key-a", apiError(429));
+    pool.reportError("key-b", apiError(429, { "retry-after": "1" }));
+    pool.reportError("key-c", apiError(429));
+
+    expect(pool.select(KEYS)).toBe("key-b");
+  });
+});
+
+describe("least-recently-throttled", () => {
+  it("should prefer keys that were never throttled", () => {
+    const pool = createApiKeyPool({
+      selection: "least-recently-throttled",
+      cooldownMs: 0,
+    });
+
+    pool.reportError("key-a", apiError(429));
+
+    expect(pool.select(KEYS)).toBe("key-b");
+  });
+});
+
+describe("quarantine", () => {
+  it("should never select keys rejected with 401 or 403", () => {
+    const pool = createApiKeyPool({});
+
+    expect(pool.reportError("key-a", apiError(401))).toBe(true);
+    expect(pool.reportError("key-b", apiError(403))).toBe(true);
+
+    expect([1, 2].map(() => pool.select(KEYS))).toStrictEqual([
+      "key-c",
+      "key-c",
+    ]);
+  });
+
+  it("should throw when every key is quarantined", () => {
+    const pool = createApiKeyPool({});
+
+    for (const key of KEYS) {
+      pool.reportError(key, apiError(401));
+    }
+
+    expect(() => pool.select(KEYS)).toThrow(LoadAPIKeyError);
+  });
+
+  it("should keep using a single configured key", () => {
+    const pool = createApiKeyPool({});
+
+    pool.reportError("key-a", apiError(401));
+
+    expect(pool.select(["key-a"])).toBe("key-a");
+  });
+});
+
+it("should not fail over on other errors", () => {
+  const pool = createApiKeyPool({});
+
+  expect(pool.reportError("key-a", apiError(500))).toBe(false);
+  expect(pool.reportError("key-a", new Error("network"))).toBe(false);
+});
+
+it("should return undefined when every key was tried", () => {
+  const pool = createApiKeyPool({});
+
+  expect(pool.select(KEYS, new Set(KEYS))).toBeUndefined();
+});
@@ -0,0 +1,138 @@
+import { APICallError, LoadAPIKeyError } from "@ai-sdk/provider";
+import { getRetryAfterDelay } from "./retry-with-exponential-backoff";
+
+export type InflectionApiKeySelection =
+  | "round-robin"
+  | "least-recently-throttled";
+
+export type ApiKeyPool = {
+  /**
+   * Picks the next key to use.
+   * @param keys The configured keys
+   * @param exclude Keys that already failed during the current call
+   * @returns The selected key, or undefined when every key was excluded
+   * @throws {LoadAPIKeyError} If every key is quarantined
+   */
+  select(keys: string[], exclude?: Set<string>): string | undefined;
+
+  /**
+   * Records a failed request. Keys are quarantined on 401/403 and cool
+   * down on 429.
+   * @returns True if the call should fail over to another key
+   */
+  reportError(key: string, error: unknown): boolean;
+};
+
+type KeyState = {
+  quarantined: boolean;
+  cooldownUntil: number;
+  lastThrottledAt: number;
+};
+
+/**
+ * Creates the key rotation state of a provider. The state is only tracked when
+ * more than one key is configured; a single key is always used as-is.
+ */
+export function createApiKeyPool({
+  selection = "round-robin",
+  cooldownMs = 60000,
+}: {
+  selection?: InflectionApiKeySelection;
+  cooldownMs?: number;
+}): ApiKeyPool {
+  const states = new Map<string, KeyState>();
+  let nextIndex = 0;
+
+  const getState = (key: string) => {
+    let state = states.get(key);
+    if (state == null) {
+      state = { quarantined: false, cooldownUntil: 0, lastThrottledAt: 0 };
+      states.set(key, state);
+    }
+    return state;
+  };
+
+  return {
+    select(keys, exclude) {
+      if (keys.length === 1) {
+        return exclude?.has(keys[0]) ? undefined : keys[0];
+      }
+
+      const usableKeys = keys.filter((key) => !getState(key).quarantined);
+
+      if (usableKeys.length === 0) {
+        throw new LoadAPIKeyError({
+          message:
+            "All Inflection API keys are quarantined after 401/403 responses.",
+        });
+      }
+
+      const candidates = usableKeys.filter((key) => !exclude?.has(key));
+      if (candidates.length === 0) {
+        return undefined;
+      }
+
+      const now = Date.now();
+      const availableKeys = candidates.filter(
+        (key) => getState(key).cooldownUntil <= now,
+      );
+
+      // when every key is cooling down, use the one that recovers first:
+      if (availableKeys.length === 0) {
+        return candidates.reduce((best, key) =>
+          getState(key).cooldownUntil < getState(best).cooldownUntil
+            ? key
+            : best,
+        );
+      }
+
+      switch (selection) {
+        case "round-robin": {
+          for (let offset = 0; offset < keys.length; offset++) {
+            const index = (nextIndex + offset) % keys.length;
+            if (availableKeys.includes(keys[index])) {
+              nextIndex = (index + 1) % keys.length;
+              return keys[index];
+            }
+          }
+          return availableKeys[0];
+        }
+        case "least-recently-throttled": {
+          return availableKeys.reduce((best, key) =>
+            getState(key).lastThrottledAt < getState(best).lastThrottledAt
+              ? key
+              : best,
+          );
+        }
+        default: {
+          const _exhaustiveCheck: never = selection;
+          throw new Error(`Unsupported key selection: ${_exhaustiveCheck}`);
+        }
+      }
+    },
+
+    reportError(key, error) {
+      if (!APICallError.isInstance(error)) {
+        return false;
+      }
+
+      switch (error.statusCode) {
+        case 401:
+        case 403: {
+          getState(key).quarantined = true;
+          return true;
+        }
+        case 429: {
+          const now = Date.now();
+          const state = getState(key);
+          state.lastThrottledAt = now;
+          state.cooldownUntil = now + (getRetryAfterDelay(error) ?? cooldownMs);
+          return true;
+        }
+        default: {
+          return false;
+        }
+      }
+    },
+  };
+}
@@ -0,0 +1,76 @@
+import { APICallError } from "@ai-sdk/provider";
+
+export type BaseURLCircuitBreaker = {
+  /**
+   * Picks the first healthy base URL in configuration order.
+   * @param baseURLs The configured base URLs
+   * @param exclude Base URLs that already failed during the current call
+   * @returns The selected base URL, or undefined when every URL was excluded
+   */
+  select(baseURLs: string[], exclude?: Set<string>): string | undefined;
+
+  /**
+   * Records a failed request. Connection errors and 5xx responses open the
+   * circuit of the base URL for the cooldown window.
+   * @returns True if the call should fail over to another base URL
+   */
+  reportError(baseURL: string, error: unknown): boolean;
+
+  /**
+   * Records a successful request and closes the circuit of the base URL.
+   */
+  reportSuccess(baseURL: string): void;
+};
+
+/**
+ * Creates the base URL health state of a provider.
+ */
+export function createBaseURLCircuitBreaker({
+  cooldownMs = 30000,
+}: {
+  cooldownMs?: number;
+}): BaseURLCircuitBreaker {
+  const openUntil = new Map<string, number>();
+
+  return {
+    select(baseURLs, exclude) {
+      const candidates = baseURLs.filter((baseURL) => !exclude?.has(baseURL));
+      if (candidates.length === 0) {
+        return undefined;
+      }
+
+      const now = Date.now();
+      const healthy = candidates.find(
+        (baseURL) => (openUntil.get(baseURL) ?? 0) <= now,
+      );
+
+      // when every circuit is open, use the base URL that recovers first:
+      return (
+        healthy ??
+        candidates.reduce((best, baseURL) =>
+          openUntil.get(baseURL)! < openUntil.get(best)! ? baseURL : best,
+        )
+      );
+    },
+
+    reportError(baseURL, error) {
+      if (!APICallError.isInstance(error)) {
+        return false;
+      }
+
+      const isConnectionError = error.statusCode == null && error.isRetryable;
+      const isServerError = error.statusCode != null && error.statusCode >= 500;
+
+      if (!isConnectionError && !isServerError) {
+        return false;
+      }
+
+      openUntil.set(baseURL, Date.now() + cooldownMs);
+      return true;
+    },
+
+    reportSuccess(baseURL) {
+      openUntil.delete(baseURL);
+    },
+  };
+}
@@ -194,6 +194,144 @@ describe("tool calls", () => {
     expect(result).toMatchSnapshot();
   });
 
+  it("should create one tool message per result of parallel tool calls", () => {
+    const result = convertToInflectionChatMessages(
+      [
+        {
+          role: "assistant",
+          content: [
+            {
+              type: "tool-call",
+              args: { city: "Paris" },
+              toolCallId: "call-1",
+              toolName: "get_weather",
+            },
+            {
+              type: "tool-call",
+              args: { city: "Rome" },
+              toolCallId: "call-2",
+              toolName: "get_weather",
+            },
+          ],
+        },
+        {
+          role: "tool",
+          content: [
+            {
+              type: "tool-result",
+              toolCallId: "call-1",
+              toolName: "get_weather",
+              result: { temperature: 21 },
+            },
+            {
+              type: "tool-result",
+              toolCallId: "call-2",
+              toolName: "get_weather",
+              result: { temperature: 25 },
+            },
+          ],
+        },
+      ],
+      "inflection_3_with_tools"
+    );
+
+    expect(result).toStrictEqual([
+      {
+        type: "AI",
+        text: "",
+        tool_calls: [
+          {
+            id: "call-1",
+            type: "function",
+            function: { name: "get_weather", arguments: '{"city":"Paris"}' },
+          },
+          {
+            id: "call-2",
+            type: "function",
+            function: { name: "get_weather", arguments: '{"city":"Rome"}' },
+          },
+        ],
+      },
+      { type: "Tool", text: '{"temperature":21}', tool_call_id: "call-1" },
+      { type: "Tool", text: '{"temperature":25}', tool_call_id: "call-2" },
+    ]);
+  });
+
+  it("should mark error results", () => {
+    const result = convertToInflectionChatMessages(
+      [
+        {
+          role: "tool",
+          content: [
+            {
+              type: "tool-result",
+              toolCallId: "call-1",
+              toolName: "get_weather",
+              result: "Unknown city",
+              isError: true,
+            },
+          ],
+        },
+      ],
+      "inflection_3_with_tools"
+    );
+
+    expect(result).toStrictEqual([
+      { type: "Tool", text: 'Error: "Unknown city"', tool_call_id: "call-1" },
+    ]);
+  });
+
+  it("should round-trip the calls and results of a tool conversation", () => {
+    const toolCalls = [
+      { id: "call-1", args: { city: "Paris" }, result: { temperature: 21 } },
+      { id: "call-2", args: { city: "Rome" }, result: null },
+      { id: "call-3", args: {}, result: ["sunny", "windy"] },
+    ];
+
+    const result = convertToInflectionChatMessages(
+      [
+        {
+          role: "assistant",
+          content: toolCalls.map(({ id, args }) => ({
+            type: "tool-call" as const,
+            args,
+            toolCallId: id,
+            toolName: "get_weather",
+          })),
+        },
+        {
+          role: "tool",
+          content: toolCalls.map(({ id, result }) => ({
+            type: "tool-result" as const,
+            toolCallId: id,
+            toolName: "get_weather",
+            result,
+          })),
+        },
+      ],
+      "inflection_3_with_tools"
+    );
+
+    const [assistantMessage, ...toolMessages] = result;
+    expect(
+      assistantMessage.tool_calls?.map(
+        ({ id, function: { arguments: args } }) => ({
+          id,
+          args: JSON.parse(args),
+        })
+      )
+    ).toStrictEqual(toolCalls.map(({ id, args }) => ({ id, args })));
+    expect(
+      toolMessages.map(({ type, tool_call_id, text }) => ({
+        type,
+        id: tool_call_id,
+        result: JSON.parse(text),
+      }))
+    ).toStrictEqual(
+      toolCalls.map(({ id, result }) => ({ type: "Tool", id, result }))
+    );
+  });
+
   it("should throw error for tool calls with non-tool models", () => {
     expect(() =>
       convertToInflectionChatMessages(
@@ -3,6 +3,10 @@ import {
   UnsupportedFunctionalityError,
 } from "@ai-sdk/provider";
 import { InflectionChatModelId } from "./inflection-chat-settings";
+import {
+  InflectionModelCapabilities,
+  getInflectionModelCapabilities,
+} from "./inflection-model-capabilities";
 
 /**
  * Represents a message in the Inflection AI format
@@ -33,18 +37,24 @@ export type InflectionContext = InflectionMessage[];
  * Converts a Language Model prompt to Inflection AI's context format
  * @param prompt The input prompt in the Language Model format
  * @param modelId The Inflection model ID being used
+ * @param capabilities The capabilities of the model, defaults to the built-in registry entry
  * @returns An array of messages in Inflection AI's format
  * @throws {UnsupportedFunctionalityError} If the prompt contains unsupported content types
  */
 export function convertToInflectionChatMessages(
   prompt: LanguageModelV1Prompt,
-  modelId: InflectionChatModelId = "inflection_3_pi"
+  modelId: InflectionChatModelId = "inflection_3_pi",
+  { supportsTools }: InflectionModelCapabilities = getInflectionModelCapabilities(
+    modelId
+  )
 ): InflectionContext {
   const context: InflectionContext = [];
 
   for (const { role, content } of prompt) {
     let text = "";
     const toolCalls: InflectionMessage["tool_calls"] = [];
+    // one Tool message per result, e.g. for parallel tool calls:
+    const toolResults: Array<{ toolCallId: string; text: string }> = [];
 
     if (typeof content === "string") {
       text = content;
@@ -57,10 +67,9 @@ export function convertToInflectionChatMessages(
             break;
           }
           case "tool-call": {
-            if (modelId !== "inflection_3_with_tools") {
+            if (!supportsTools) {
               throw new UnsupportedFunctionalityError({
-                functionality:
-                  "Tool calls are only supported with the inflection_3_with_tools model",
+                functionality: `Tool calls are only supported with the inflection_3_with_tools model and models registered with tool support (model: ${modelId})`,
               });
             }
             toolCalls.push({
@@ -74,13 +83,16 @@ export function convertToInflectionChatMessages(
             break;
           }
           case "tool-result": {
-            if (modelId !== "inflection_3_with_tools") {
+            if (!supportsTools) {
               throw new UnsupportedFunctionalityError({
-                functionality:
-                  "Tool results are only supported with the inflection_3_with_tools model",
+                functionality: `Tool results are only supported with the inflection_3_with_tools model and models registered with tool support (model: ${modelId})`,
               });
             }
-            text = JSON.stringify(part.result);
+            const result = JSON.stringify(part.result ?? null);
+            toolResults.push({
+              toolCallId: part.toolCallId,
+              text: part.isError ? `Error: ${result}` : result,
+            });
             break;
           }
           case "image": {
@@ -105,8 +117,8 @@ export function convertToInflectionChatMessages(
       }
     }
 
-    // Skip empty messages unless they have tool calls
-    if (!text && !toolCalls.length) {
+    // Skip empty messages unless they have tool calls or results
+    if (!text && !toolCalls.length && !toolResults.length) {
       continue;
     }
 
@@ -120,7 +132,7 @@ export function convertToInflectionChatMessages(
         context.push({
           type: "AI",
           text,
-          ...(modelId === "inflection_3_with_tools" && toolCalls.length > 0
+          ...(supportsTools && toolCalls.length > 0
             ? { tool_calls: toolCalls }
             : {}),
         });
@@ -131,16 +143,11 @@ export function convertToInflectionChatMessages(
         break;
       }
       case "tool": {
-        // Only add tool messages if they have content
-        if (text) {
-          const toolCallId =
-            typeof content === "string"
-              ? undefined
-              : content.find((part) => part.type === "tool-result")?.toolCallId;
+        for (const toolResult of toolResults) {
           context.push({
             type: "Tool",
-            text,
-            ...(toolCallId ? { tool_call_id: toolCallId } : {}),
+            text: toolResult.text,
+            tool_call_id: toolResult.toolCallId,
           });
         }
         break;
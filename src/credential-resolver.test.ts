@@ -0,0 +1,72 @@
+import { expect, describe, it, vi } from "vitest";
+import {
+  InflectionExpiringCredential,
+  createCachedCredentialResolver,
+} from "./credential-resolver";
+
+const isExpiringCredential = (
+  result: string | InflectionExpiringCredential<string>,
+): result is InflectionExpiringCredential<string> => typeof result !== "string";
+
+describe("createCachedCredentialResolver", () => {
+  it("should resolve plain values on every call", async () => {
+    const resolve = vi.fn(async () => "token");
+    const resolver = createCachedCredentialResolver(
+      resolve,
+      isExpiringCredential,
+    );
+
+    await resolver({ forceRefresh: false });
+    await resolver({ forceRefresh: false });
+
+    expect(resolve).toHaveBeenCalledTimes(2);
+  });
+
+  it("should cache values until they expire", async () => {
+    let expiresAt = Date.now() + 60000;
+    const resolve = vi.fn(async () => ({ value: "token", expiresAt }));
+    const resolver = createCachedCredentialResolver(
+      resolve,
+      isExpiringCredential,
+    );
+
+    expect(await resolver({ forceRefresh: false })).toBe("token");
+    expect(await resolver({ forceRefresh: false })).toBe("token");
+    expect(resolve).toHaveBeenCalledTimes(1);
+
+    expiresAt = Date.now() - 1;
+    await resolver({ forceRefresh: true });
+    await resolver({ forceRefresh: false });
+    expect(resolve).toHaveBeenCalledTimes(3);
+  });
+
+  it("should bypass the cache on forced refreshes", async () => {
+    const resolve = vi.fn(async ({ forceRefresh }) => ({
+      value: forceRefresh ? "fresh-token" : "token",
+      expiresAt: new Date(Date.now() + 60000),
+    }));
+    const resolver = createCachedCredentialResolver(
+      resolve,
+      isExpiringCredential,
+    );
+
+    await resolver({ forceRefresh: false });
+    expect(await resolver({ forceRefresh: true })).toBe("fresh-token");
+    expect(await resolver({ forceRefresh: false })).toBe("fresh-token");
+  });
+
+  it("should share a pending resolution between concurrent calls", async () => {
+    const resolve = vi.fn(async () => "token");
+    const resolver = createCachedCredentialResolver(
+      resolve,
+      isExpiringCredential,
+    );
+
+    await Promise.all([
+      resolver({ forceRefresh: false }),
+      resolver({ forceRefresh: false }),
+    ]);
+
+    expect(resolve).toHaveBeenCalledTimes(1);
+  });
+});
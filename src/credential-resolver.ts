@@ -0,0 +1,72 @@
+/**
+ * A credential value together with the time at which it expires.
+ */
+export type InflectionExpiringCredential<T> = {
+  value: T;
+  /** Expiry as a `Date` or as milliseconds since epoch. */
+  expiresAt?: Date | number;
+};
+
+/**
+ * Resolves a credential before a request. Results that include an `expiresAt`
+ * are cached until they expire. `forceRefresh` is set when the API rejected
+ * the previous credential with a 401.
+ */
+export type InflectionCredentialResolver<T> = (options: {
+  forceRefresh: boolean;
+}) => PromiseLike<T | InflectionExpiringCredential<T>>;
+
+type CachedCredential<T> = { value: T; expiresAt: number | undefined };
+
+/**
+ * Wraps a credential resolver with an expiry-based cache. Concurrent calls
+ * share a single pending resolution.
+ */
+export function createCachedCredentialResolver<T>(
+  resolve: InflectionCredentialResolver<T>,
+  isExpiringCredential: (
+    result: T | InflectionExpiringCredential<T>,
+  ) => result is InflectionExpiringCredential<T>,
+): (options: { forceRefresh: boolean }) => Promise<T> {
+  let current: CachedCredential<T> | undefined;
+  let pending: Promise<CachedCredential<T>> | undefined;
+
+  return async ({ forceRefresh }) => {
+    if (!forceRefresh) {
+      if (current?.expiresAt != null && current.expiresAt > Date.now()) {
+        return current.value;
+      }
+
+      if (pending != null) {
+        return (await pending).value;
+      }
+    }
+
+    const resolution = Promise.resolve(resolve({ forceRefresh })).then(
+      (result): CachedCredential<T> =>
+        isExpiringCredential(result)
+          ? {
+              value: result.value,
+              expiresAt:
+                result.expiresAt instanceof Date
+                  ? result.expiresAt.getTime()
+                  : result.expiresAt,
+            }
+          : { value: result, expiresAt: undefined },
+    );
+
+    pending = resolution;
+
+    try {
+      current = await resolution;
+      return current.value;
+    } catch (error) {
+      current = undefined;
+      throw error;
+    } finally {
+      if (pending === resolution) {
+        pending = undefined;
+      }
+    }
+  };
+}
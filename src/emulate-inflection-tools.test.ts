@@ -0,0 +1,223 @@
+import { expect, describe, it } from "vitest";
+import {
+  convertToEmulatedToolPrompt,
+  createEmulatedToolCallParser,
+  parseEmulatedToolCalls,
+} from "./emulate-inflection-tools";
+
+const tools = [
+  {
+    name: "get_weather",
+    description: "Get the current weather in a location",
+    parameters: {
+      type: "object",
+      properties: { location: { type: "string" } },
+      required: ["location"],
+    },
+  },
+];
+
+describe("convertToEmulatedToolPrompt", () => {
+  it("should add the tool instruction and write tool calls and results as text", () => {
+    const prompt = convertToEmulatedToolPrompt(
+      [
+        { role: "user", content: [{ type: "text", text: "Weather?" }] },
+        {
+          role: "assistant",
+          content: [
+            {
+              type: "tool-call",
+              toolCallId: "call-1",
+              toolName: "get_weather",
+              args: { location: "Paris" },
+            },
+          ],
+        },
+        {
+          role: "tool",
+          content: [
+            {
+              type: "tool-result",
+              toolCallId: "call-1",
+              toolName: "get_weather",
+              result: { temperature: 21 },
+            },
+          ],
+        },
+      ],
+      { tools, required: false },
+    );
+
+    expect(prompt[0]).toMatchObject({ role: "system" });
+    expect(prompt[0].content).toContain(JSON.stringify(tools));
+    expect(prompt[0].content).toContain(
+      "If no tool is needed, reply with plain text instead.",
+    );
+    expect(prompt.slice(1)).toStrictEqual([
+      { role: "user", content: [{ type: "text", text: "Weather?" }] },
+      {
+        role: "assistant",
+        content: [
+          {
+            type: "text",
+            text: '{"tool_calls":[{"id":"call-1","name":"get_weather","arguments":{"location":"Paris"}}]}',
+          },
+        ],
+      },
+      {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: 'Tool results:\n[{"id":"call-1","name":"get_weather","result":{"temperature":21}}]',
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should tell parallel calls of the same tool apart by id", () => {
+    const prompt = convertToEmulatedToolPrompt(
+      [
+        {
+          role: "tool",
+          content: [
+            {
+              type: "tool-result",
+              toolCallId: "call-1",
+              toolName: "get_weather",
+              result: { temperature: 21 },
+            },
+            {
+              type: "tool-result",
+              toolCallId: "call-2",
+              toolName: "get_weather",
+              result: { temperature: 15 },
+            },
+          ],
+        },
+      ],
+      undefined,
+    );
+
+    expect(prompt).toStrictEqual([
+      {
+        role: "user",
+        content: [
+          {
+            type: "text",
+            text: `Tool results:\n${JSON.stringify([
+              {
+                id: "call-1",
+                name: "get_weather",
+                result: { temperature: 21 },
+              },
+              {
+                id: "call-2",
+                name: "get_weather",
+                result: { temperature: 15 },
+              },
+            ])}`,
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("should require a tool call for required tool choice", () => {
+    const [instruction] = convertToEmulatedToolPrompt([], {
+      tools,
+      required: true,
+    });
+
+    expect(instruction.content).toContain("You must call at least one tool.");
+  });
+
+  it("should only rewrite the history without emulated tools", () => {
+    expect(
+      convertToEmulatedToolPrompt(
+        [{ role: "user", content: [{ type: "text", text: "Hello" }] }],
+        undefined,
+      ),
+    ).toStrictEqual([
+      { role: "user", content: [{ type: "text", text: "Hello" }] },
+    ]);
+  });
+});
+
+describe("parseEmulatedToolCalls", () => {
+  it("should parse tool calls in the JSON protocol", () => {
+    expect(
+      parseEmulatedToolCalls(
+        '```json\n{"tool_calls":[{"name":"get_weather","arguments":{"location":"Paris"}}]}\n```',
+      ),
+    ).toStrictEqual([
+      {
+        toolCallType: "function",
+        toolCallId: expect.any(String),
+        toolName: "get_weather",
+        args: '{"location":"Paris"}',
+      },
+    ]);
+  });
+
+  it("should return undefined for other replies", () => {
+    expect(parseEmulatedToolCalls("It is sunny in Paris.")).toBeUndefined();
+    expect(parseEmulatedToolCalls('{"answer":"sunny"}')).toBeUndefined();
+    expect(parseEmulatedToolCalls('{"tool_calls":[]}')).toBeUndefined();
+  });
+});
+
+describe("createEmulatedToolCallParser", () => {
+  it("should stream plain text replies", () => {
+    const parser = createEmulatedToolCallParser();
+
+    expect(parser.append(" ")).toStrictEqual([]);
+    expect(parser.append("It is")).toStrictEqual([
+      { type: "text-delta", textDelta: " It is" },
+    ]);
+    expect(parser.append(" sunny.")).toStrictEqual([
+      { type: "text-delta", textDelta: " sunny." },
+    ]);
+    expect(parser.flush()).toStrictEqual([]);
+    expect(parser.hasToolCalls()).toBe(false);
+  });
+
+  it("should emit tool calls at the end of the reply", () => {
+    const parser = createEmulatedToolCallParser();
+
+    expect(
+      parser.append('{"tool_calls":[{"name":"get_weather",'),
+    ).toStrictEqual([]);
+    expect(parser.append('"arguments":{"location":"Paris"}}]}')).toStrictEqual(
+      [],
+    );
+    expect(parser.flush()).toStrictEqual([
+      {
+        type: "tool-call-delta",
+        toolCallType: "function",
+        toolCallId: expect.any(String),
+        toolName: "get_weather",
+        argsTextDelta: '{"location":"Paris"}',
+      },
+      {
+        type: "tool-call",
+        toolCallType: "function",
+        toolCallId: expect.any(String),
+        toolName: "get_weather",
+        args: '{"location":"Paris"}',
+      },
+    ]);
+    expect(parser.hasToolCalls()).toBe(true);
+  });
+
+  it("should emit buffered JSON replies that are not tool calls as text", () => {
+    const parser = createEmulatedToolCallParser();
+
+    expect(parser.append('{"answer":')).toStrictEqual([]);
+    expect(parser.append('"sunny"}')).toStrictEqual([]);
+    expect(parser.flush()).toStrictEqual([
+      { type: "text-delta", textDelta: '{"answer":"sunny"}' },
+    ]);
+  });
+});
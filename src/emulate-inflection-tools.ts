@@ -0,0 +1,237 @@
+import {
+  LanguageModelV1FunctionToolCall,
+  LanguageModelV1Prompt,
+  LanguageModelV1StreamPart,
+} from "@ai-sdk/provider";
+import { generateId } from "@ai-sdk/provider-utils";
+import { z } from "zod";
+
+export type EmulatedTools = {
+  tools: Array<{
+    name: string;
+    description: string | undefined;
+    parameters: unknown;
+  }>;
+
+  /** Whether the model must call a tool. */
+  required: boolean;
+};
+
+const TOOL_RESULTS_PREFIX = "Tool results:";
+
+const emulatedToolCallsSchema = z.object({
+  tool_calls: z
+    .array(
+      z.object({
+        name: z.string(),
+        arguments: z.record(z.unknown()).optional(),
+      }),
+    )
+    .min(1),
+});
+
+/**
+ * Creates the instruction that describes the tools and the JSON protocol the
+ * model uses to call them.
+ */
+export function createEmulatedToolsInstruction({
+  tools,
+  required,
+}: EmulatedTools): string {
+  return [
+    "You can call the following tools. Each tool has a name, a description and a JSON schema for its arguments:",
+    JSON.stringify(tools),
+    'To call tools, reply with only a JSON object in this format and no other text: {"tool_calls":[{"name":"<tool name>","arguments":{<arguments>}}]}',
+    required
+      ? "You must call at least one tool."
+      : "If no tool is needed, reply with plain text instead.",
+    `Tool calls in the conversation have an id. Tool results are sent back in a message that starts with "${TOOL_RESULTS_PREFIX}", each with the id of the tool call it answers.`,
+  ].join("\n\n");
+}
+
+/**
+ * Rewrites a prompt for a model without native tool support: the tool
+ * instruction is added as a system message, tool calls of assistant messages
+ * are written in the JSON protocol, and tool results are sent back as user
+ * messages with structured text. Calls and results include the tool call id,
+ * so that parallel calls of the same tool can be told apart.
+ */
+export function convertToEmulatedToolPrompt(
+  prompt: LanguageModelV1Prompt,
+  emulatedTools: EmulatedTools | undefined,
+): LanguageModelV1Prompt {
+  const emulatedPrompt: LanguageModelV1Prompt = [];
+
+  if (emulatedTools != null) {
+    emulatedPrompt.push({
+      role: "system",
+      content: createEmulatedToolsInstruction(emulatedTools),
+    });
+  }
+
+  for (const message of prompt) {
+    switch (message.role) {
+      case "assistant": {
+        const toolCalls = message.content.filter(
+          (part) => part.type === "tool-call",
+        );
+
+        if (toolCalls.length === 0) {
+          emulatedPrompt.push(message);
+          break;
+        }
+
+        emulatedPrompt.push({
+          role: "assistant",
+          content: [
+            ...message.content.filter((part) => part.type === "text"),
+            {
+              type: "text",
+              text: JSON.stringify({
+                tool_calls: toolCalls.map((toolCall) => ({
+                  id: toolCall.toolCallId,
+                  name: toolCall.toolName,
+                  arguments: toolCall.args,
+                })),
+              }),
+            },
+          ],
+        });
+        break;
+      }
+
+      case "tool": {
+        emulatedPrompt.push({
+          role: "user",
+          content: [
+            {
+              type: "text",
+              text: `${TOOL_RESULTS_PREFIX}\n${JSON.stringify(
+                message.content.map((toolResult) => ({
+                  id: toolResult.toolCallId,
+                  name: toolResult.toolName,
+                  result: toolResult.result,
+                  ...(toolResult.isError ? { isError: true } : {}),
+                })),
+              )}`,
+            },
+          ],
+        });
+        break;
+      }
+
+      default: {
+        emulatedPrompt.push(message);
+        break;
+      }
+    }
+  }
+
+  return emulatedPrompt;
+}
+
+/**
+ * Parses a reply in the JSON protocol of the tool instruction.
+ * @returns The tool calls, or undefined when the reply is plain text
+ */
+export function parseEmulatedToolCalls(
+  text: string,
+): LanguageModelV1FunctionToolCall[] | undefined {
+  // models sometimes wrap the JSON in a markdown code block:
+  const json = text.trim().replace(/^```(?:json)?\s*([\s\S]*?)\s*```$/, "$1");
+
+  let result: ReturnType<typeof emulatedToolCallsSchema.safeParse>;
+  try {
+    result = emulatedToolCallsSchema.safeParse(JSON.parse(json));
+  } catch {
+    return undefined;
+  }
+
+  if (!result.success) {
+    return undefined;
+  }
+
+  return result.data.tool_calls.map((toolCall) => ({
+    toolCallType: "function",
+    toolCallId: generateId(),
+    toolName: toolCall.name,
+    args: JSON.stringify(toolCall.arguments ?? {}),
+  }));
+}
+
+export type EmulatedToolCallParser = {
+  /**
+   * Adds a text delta of the reply.
+   * @returns The `text-delta` parts that can be emitted
+   */
+  append(textDelta: string): LanguageModelV1StreamPart[];
+
+  /**
+   * Completes the reply at the end of the stream.
+   * @returns The tool call parts when the reply is a tool call, otherwise the
+   * buffered text
+   */
+  flush(): LanguageModelV1StreamPart[];
+
+  /**
+   * Whether the reply contained tool calls.
+   */
+  hasToolCalls(): boolean;
+};
+
+/**
+ * Creates the per-stream parser for replies in the JSON protocol. Replies
+ * that start with `{` or a code block are buffered until the end of the
+ * stream, all other replies are streamed as text.
+ */
+export function createEmulatedToolCallParser(): EmulatedToolCallParser {
+  let buffer = "";
+  let isText = false;
+  let hasToolCalls = false;
+
+  return {
+    append(textDelta) {
+      if (isText) {
+        return [{ type: "text-delta", textDelta }];
+      }
+
+      buffer += textDelta;
+
+      const start = buffer.trimStart();
+      if (start === "" || start.startsWith("{") || start.startsWith("`")) {
+        return [];
+      }
+
+      isText = true;
+      return [{ type: "text-delta", textDelta: buffer }];
+    },
+
+    flush() {
+      if (isText || buffer === "") {
+        return [];
+      }
+
+      const toolCalls = parseEmulatedToolCalls(buffer);
+      if (toolCalls == null) {
+        return [{ type: "text-delta", textDelta: buffer }];
+      }
+
+      hasToolCalls = true;
+
+      return toolCalls.flatMap((toolCall): LanguageModelV1StreamPart[] => [
+        {
+          type: "tool-call-delta",
+          toolCallType: "function",
+          toolCallId: toolCall.toolCallId,
+          toolName: toolCall.toolName,
+          argsTextDelta: toolCall.args,
+        },
+        { type: "tool-call", ...toolCall },
+      ]);
+    },
+
+    hasToolCalls() {
+      return hasToolCalls;
+    },
+  };
+}
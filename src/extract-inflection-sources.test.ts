@@ -0,0 +1,86 @@
+import { expect, describe, it } from "vitest";
+import { extractInflectionSources } from "./extract-inflection-sources";
+
+// responses of Inflection models with web search:
+const fixtures = {
+  markdownLinks:
+    "The [James Webb Space Telescope](https://webb.nasa.gov) launched on December 25, 2021 " +
+    '([launch report](https://www.esa.int/webb-launch "ESA: Webb launch")).',
+
+  referenceCitations: [
+    "Paris hosted the Summer Olympics in 2024 [1], the third time after 1900 and 1924 [2][1].",
+    "",
+    '[1]: https://olympics.com/en/paris-2024 "Paris 2024 Olympics"',
+    "[2]: <https://en.wikipedia.org/wiki/Olympic_Games_host_cities>",
+  ].join("\n"),
+
+  numberedLinks:
+    "Rust 1.80 stabilized LazyCell [1](https://blog.rust-lang.org/2024/07/25/Rust-1.80.0.html). " +
+    "See the [release notes](https://blog.rust-lang.org/2024/07/25/Rust-1.80.0.html) for details.",
+
+  bareUrls:
+    "You can find the schedule at https://www.example.com/schedule, " +
+    "or check https://status.example.com/. (Mirror: https://mirror.example.com/schedule)",
+};
+
+describe("extractInflectionSources", () => {
+  it("should extract markdown links with their titles", () => {
+    expect(extractInflectionSources(fixtures.markdownLinks)).toStrictEqual([
+      {
+        sourceType: "url",
+        id: "1",
+        url: "https://webb.nasa.gov",
+        title: "James Webb Space Telescope",
+      },
+      {
+        sourceType: "url",
+        id: "2",
+        url: "https://www.esa.int/webb-launch",
+        title: "launch report",
+      },
+    ]);
+  });
+
+  it("should extract reference definitions of citations", () => {
+    expect(extractInflectionSources(fixtures.referenceCitations)).toStrictEqual(
+      [
+        {
+          sourceType: "url",
+          id: "1",
+          url: "https://olympics.com/en/paris-2024",
+          title: "Paris 2024 Olympics",
+        },
+        {
+          sourceType: "url",
+          id: "2",
+          url: "https://en.wikipedia.org/wiki/Olympic_Games_host_cities",
+        },
+      ],
+    );
+  });
+
+  it("should deduplicate sources and take the title from a later mention", () => {
+    expect(extractInflectionSources(fixtures.numberedLinks)).toStrictEqual([
+      {
+        sourceType: "url",
+        id: "1",
+        url: "https://blog.rust-lang.org/2024/07/25/Rust-1.80.0.html",
+        title: "release notes",
+      },
+    ]);
+  });
+
+  it("should extract bare URLs without trailing punctuation", () => {
+    expect(
+      extractInflectionSources(fixtures.bareUrls).map(({ url }) => url),
+    ).toStrictEqual([
+      "https://www.example.com/schedule",
+      "https://status.example.com/",
+      "https://mirror.example.com/schedule",
+    ]);
+  });
+
+  it("should return no sources for text without links", () => {
+    expect(extractInflectionSources("Hello there!")).toStrictEqual([]);
+  });
+});
@@ -0,0 +1,72 @@
+import { LanguageModelV1Source } from "@ai-sdk/provider";
+
+/**
+ * A source that a response cites. The `id` is the position of the source in
+ * the response, starting at 1.
+ */
+export type InflectionSource = LanguageModelV1Source;
+
+// [title](url "optional title"):
+const markdownLinkPattern =
+  /\[([^\]\n]*)\]\((https?:\/\/[^\s)]+)(?:\s+"([^"\n]*)")?\)/;
+
+// [1]: url "optional title", at the start of a line:
+const referenceDefinitionPattern =
+  /^[ \t]*\[[^\]\n]+\]:[ \t]*<?(https?:\/\/[^\s>]+)>?(?:[ \t]+["'(]([^\n]*?)["')])?[ \t]*$/;
+
+const bareUrlPattern = /https?:\/\/[^\s<>()[\]"'`]+/;
+
+const sourcePattern = new RegExp(
+  [markdownLinkPattern, referenceDefinitionPattern, bareUrlPattern]
+    .map((pattern) => pattern.source)
+    .join("|"),
+  "gm",
+);
+
+/**
+ * Extracts the sources that a response cites: markdown links, reference
+ * definitions such as `[1]: https://example.com "Title"`, and bare URLs.
+ * Sources are deduplicated by URL in the order of their first mention.
+ */
+export function extractInflectionSources(text: string): InflectionSource[] {
+  const sources = new Map<string, InflectionSource>();
+
+  for (const match of text.matchAll(sourcePattern)) {
+    const [, linkText, linkUrl, linkTitle, referenceUrl, referenceTitle] =
+      match;
+
+    const url =
+      linkUrl ??
+      referenceUrl ??
+      // sentence punctuation after a bare URL is not part of it:
+      match[0].replace(/[.,;:!?]+$/, "");
+    const title =
+      (isTitle(linkText, url) ? linkText : undefined) ??
+      linkTitle ??
+      referenceTitle;
+
+    const source = sources.get(url);
+    if (source == null) {
+      sources.set(url, {
+        sourceType: "url",
+        id: String(sources.size + 1),
+        url,
+        ...(title ? { title } : {}),
+      });
+    } else if (source.title == null && title) {
+      source.title = title;
+    }
+  }
+
+  return Array.from(sources.values());
+}
+
+// link texts that are citation markers or the URL itself are not titles:
+function isTitle(linkText: string | undefined, url: string): boolean {
+  return (
+    linkText != null &&
+    linkText.trim() !== "" &&
+    !/^\d+$/.test(linkText.trim()) &&
+    linkText.trim() !== url
+  );
+}
@@ -0,0 +1,121 @@
+import { expect, describe, it } from "vitest";
+import { InflectionContext } from "./convert-to-inflection-chat-messages";
+import { fitInflectionContext } from "./fit-inflection-context";
+
+// one token per character and 4 tokens of framing per message:
+const tokenizer = { countTokens: (text: string) => text.length };
+
+const context: InflectionContext = [
+  { type: "Instruction", text: "Be kind." }, // 12
+  { type: "Human", text: "0123456789" }, // 14
+  { type: "AI", text: "abcdefghij" }, // 14
+  { type: "Human", text: "What is the weather?" }, // 24
+  {
+    type: "AI",
+    text: "",
+    tool_calls: [
+      {
+        id: "call-1",
+        type: "function",
+        function: { name: "weather", arguments: "{}" },
+      },
+    ],
+  }, // 4 + 7 + 2 = 13
+  { type: "Tool", text: "sunny", tool_call_id: "call-1" }, // 9
+  { type: "Human", text: "Thanks" }, // 10
+];
+
+describe("fitInflectionContext", () => {
+  it("should keep the context when it fits", () => {
+    const result = fitInflectionContext(context, {
+      type: "drop-oldest",
+      maxPromptTokens: 1000,
+      reservedTokens: 0,
+      tokenizer,
+    });
+
+    expect(result).toStrictEqual({
+      context,
+      droppedMessages: 0,
+      truncatedMessages: 0,
+    });
+  });
+
+  it("should drop the oldest turns and keep instructions", () => {
+    const result = fitInflectionContext(context, {
+      type: "drop-oldest",
+      maxPromptTokens: 12 + 24 + 13 + 9 + 10 + 5,
+      reservedTokens: 0,
+      tokenizer,
+    });
+
+    expect(result.context).toStrictEqual([
+      context[0],
+      context[3],
+      context[4],
+      context[5],
+      context[6],
+    ]);
+    expect(result.droppedMessages).toBe(2);
+    expect(result.truncatedMessages).toBe(0);
+  });
+
+  it("should never keep a tool result without its tool call", () => {
+    const result = fitInflectionContext(context, {
+      type: "drop-oldest",
+      maxPromptTokens: 12 + 13 + 9 + 10 - 1,
+      reservedTokens: 0,
+      tokenizer,
+    });
+
+    expect(result.context).toStrictEqual([context[0], context[6]]);
+    expect(result.droppedMessages).toBe(5);
+  });
+
+  it("should subtract reserved tokens from the budget", () => {
+    const result = fitInflectionContext(context, {
+      type: "drop-oldest",
+      maxPromptTokens: 12 + 13 + 9 + 10 + 100,
+      reservedTokens: 100,
+      tokenizer,
+    });
+
+    expect(result.context).toStrictEqual([
+      context[0],
+      context[4],
+      context[5],
+      context[6],
+    ]);
+  });
+
+  it("should keep the end of the oldest fitting message with truncate-oldest", () => {
+    const result = fitInflectionContext(context, {
+      type: "truncate-oldest",
+      maxPromptTokens: 12 + 24 + 13 + 9 + 10 + 4 + 3,
+      reservedTokens: 0,
+      tokenizer,
+    });
+
+    expect(result.context).toStrictEqual([
+      context[0],
+      { type: "AI", text: "hij" },
+      context[3],
+      context[4],
+      context[5],
+      context[6],
+    ]);
+    expect(result.droppedMessages).toBe(1);
+    expect(result.truncatedMessages).toBe(1);
+  });
+
+  it("should keep the latest turn even when it exceeds the budget", () => {
+    const result = fitInflectionContext(context, {
+      type: "drop-oldest",
+      maxPromptTokens: 5,
+      reservedTokens: 0,
+      tokenizer,
+    });
+
+    expect(result.context).toStrictEqual([context[0], context[6]]);
+  });
+});
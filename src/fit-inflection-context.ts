@@ -0,0 +1,178 @@
+import {
+  InflectionContext,
+  InflectionMessage,
+} from "./convert-to-inflection-chat-messages";
+import {
+  InflectionTokenizer,
+  countInflectionRequestTokens,
+} from "./inflection-tokenizer";
+
+export type InflectionContextStrategy = {
+  /**
+   * How to shorten the conversation when it exceeds the token budget:
+   *
+   * - `drop-oldest`: drops the oldest `Human`/`AI` turns.
+   * - `truncate-oldest`: drops the oldest turns, but keeps the end of the
+   *   oldest remaining message when it only partially fits.
+   *
+   * `Instruction` messages are always kept. `Tool` messages are dropped
+   * together with the `AI` message that contains their tool calls.
+   */
+  type: "drop-oldest" | "truncate-oldest";
+
+  /**
+   * Maximum number of prompt tokens, including instructions, tools and
+   * metadata. Defaults to the model context window minus `max_tokens`.
+   */
+  maxPromptTokens?: number;
+};
+
+export type FittedInflectionContext = {
+  context: InflectionContext;
+  droppedMessages: number;
+  truncatedMessages: number;
+};
+
+/**
+ * Shortens the context to the token budget, keeping the most recent turns.
+ * @param context The converted context
+ * @param options.reservedTokens Tokens used outside of the context, e.g. by tools and metadata
+ * @returns The fitted context and the number of dropped and truncated messages
+ */
+export function fitInflectionContext(
+  context: InflectionContext,
+  {
+    type,
+    maxPromptTokens,
+    reservedTokens,
+    tokenizer,
+  }: {
+    type: InflectionContextStrategy["type"];
+    maxPromptTokens: number;
+    reservedTokens: number;
+    tokenizer: InflectionTokenizer;
+  },
+): FittedInflectionContext {
+  const countMessageTokens = (message: InflectionMessage) =>
+    countInflectionRequestTokens(tokenizer, { context: [message] });
+
+  let budget = maxPromptTokens - reservedTokens;
+  for (const message of context) {
+    if (message.type === "Instruction") {
+      budget -= countMessageTokens(message);
+    }
+  }
+
+  const turns = groupTurns(context);
+  const kept = new Set<InflectionMessage>();
+  const replaced = new Map<InflectionMessage, InflectionMessage>();
+
+  // keep turns from the newest to the oldest until the budget is used up:
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const turn = turns[i];
+    const tokens = turn.reduce((sum, m) => sum + countMessageTokens(m), 0);
+
+    if (tokens <= budget) {
+      turn.forEach((message) => kept.add(message));
+      budget -= tokens;
+      continue;
+    }
+
+    if (type === "truncate-oldest" && isTruncatable(turn)) {
+      const truncated = truncateMessage(turn[0], budget, tokenizer);
+
+      if (truncated != null) {
+        kept.add(turn[0]);
+        replaced.set(turn[0], truncated);
+      }
+    }
+
+    // never drop the latest turn, even when it exceeds the budget on its own:
+    if (i === turns.length - 1 && !kept.has(turn[0])) {
+      turn.forEach((message) => kept.add(message));
+    }
+
+    break;
+  }
+
+  const fitted = context
+    .filter((message) => message.type === "Instruction" || kept.has(message))
+    .map((message) => replaced.get(message) ?? message);
+
+  return {
+    context: fitted,
+    droppedMessages: context.length - fitted.length,
+    truncatedMessages: replaced.size,
+  };
+}
+
+/**
+ * Groups the conversation messages into turns that are kept or dropped as a
+ * whole: an `AI` message with tool calls forms a turn with its `Tool` results.
+ */
+function groupTurns(context: InflectionContext): InflectionMessage[][] {
+  const turns: InflectionMessage[][] = [];
+  let toolCallTurn: InflectionMessage[] | undefined;
+
+  for (const message of context) {
+    if (message.type === "Instruction") {
+      continue;
+    }
+
+    if (message.type === "Tool" && toolCallTurn != null) {
+      toolCallTurn.push(message);
+      continue;
+    }
+
+    const turn = [message];
+    turns.push(turn);
+    toolCallTurn =
+      message.type === "AI" && message.tool_calls?.length ? turn : undefined;
+  }
+
+  return turns;
+}
+
+function isTruncatable(turn: InflectionMessage[]): boolean {
+  return (
+    turn.length === 1 &&
+    (turn[0].type === "Human" || turn[0].type === "AI") &&
+    !turn[0].tool_calls?.length
+  );
+}
+
+/**
+ * Keeps the longest end of the message text that fits the budget.
+ * @returns The truncated message, or undefined when no text fits
+ */
+function truncateMessage(
+  message: InflectionMessage,
+  budget: number,
+  tokenizer: InflectionTokenizer,
+): InflectionMessage | undefined {
+  const overhead = countInflectionRequestTokens(tokenizer, {
+    context: [{ ...message, text: "" }],
+  });
+  const textBudget = budget - overhead;
+  if (textBudget <= 0) {
+    return undefined;
+  }
+
+  // binary search for the longest suffix that fits:
+  const chars = Array.from(message.text);
+  let low = 0;
+  let high = chars.length;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    const suffix = chars.slice(chars.length - mid).join("");
+    if (tokenizer.countTokens(suffix) <= textBudget) {
+      low = mid;
+    } else {
+      high = mid - 1;
+    }
+  }
+
+  return low > 0
+    ? { ...message, text: chars.slice(chars.length - low).join("") }
+    : undefined;
+}
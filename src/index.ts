@@ -1,11 +1,63 @@
 export { createInflection, inflection } from "./inflection-provider";
 export type {
+  InflectionModelAlias,
   InflectionProvider,
+  InflectionProviderModelId,
   InflectionProviderSettings,
 } from "./inflection-provider";
 export type {
+  InflectionBuiltInChatModelId,
   InflectionChatModelId,
   InflectionChatSettings,
 } from "./inflection-chat-settings";
+export { getInflectionModelCapabilities } from "./inflection-model-capabilities";
+export type { InflectionModelCapabilities } from "./inflection-model-capabilities";
+export {
+  approximateInflectionTokenizer,
+  countInflectionRequestTokens,
+} from "./inflection-tokenizer";
+export type { InflectionTokenizer } from "./inflection-tokenizer";
+export type { InflectionContextStrategy } from "./fit-inflection-context";
+export { createInMemoryInflectionMemoryStore } from "./summarize-inflection-context";
+export type {
+  InflectionConversationSummary,
+  InflectionMemorySettings,
+  InflectionMemoryStore,
+} from "./summarize-inflection-context";
+export {
+  computeInflectionCost,
+  createInflectionUsageAggregator,
+} from "./inflection-usage";
+export type {
+  InflectionModelPrice,
+  InflectionUsageAggregator,
+  InflectionUsageEvent,
+  InflectionUsageTotals,
+} from "./inflection-usage";
+export type { InflectionRetrySettings } from "./retry-with-exponential-backoff";
+export type { InflectionRateLimitSettings } from "./request-limiter";
+export type { InflectionApiKeySelection } from "./api-key-pool";
+export type {
+  InflectionCredentialResolver,
+  InflectionExpiringCredential,
+} from "./credential-resolver";
+export {
+  InflectionQueueTimeoutError,
+  InflectionStreamInterruptedError,
+  InflectionTimeoutError,
+  InvalidToolArgumentsError,
+} from "./inflection-error";
+export type {
+  InflectionRawToolCall,
+  InflectionRepairToolCallFunction,
+} from "./parse-inflection-tool-call";
+export type { InflectionResilientStreamingSettings } from "./resilient-stream";
+export type { InflectionSource } from "./extract-inflection-sources";
 export { generateObject } from "./inflection-generate-object";
 export type { GenerateObjectOptions } from "./inflection-generate-object";
+export { streamObject } from "./inflection-stream-object";
+export type {
+  AsyncIterableStream,
+  StreamObjectOptions,
+  StreamObjectResult,
+} from "./inflection-stream-object";
@@ -1,10 +1,16 @@
-import { expect, describe, it, beforeEach } from "vitest";
-import { LanguageModelV1Prompt } from "@ai-sdk/provider";
+import { expect, describe, it, beforeEach, vi } from "vitest";
+import { APICallError, LanguageModelV1Prompt } from "@ai-sdk/provider";
 import {
   createTestServer,
   convertReadableStreamToArray,
 } from "@ai-sdk/provider-utils/test";
 import { createInflection } from "./inflection-provider";
+import {
+  InflectionStreamInterruptedError,
+  InflectionTimeoutError,
+  InvalidToolArgumentsError,
+} from "./inflection-error";
+import { approximateInflectionTokenizer } from "./inflection-tokenizer";
 
 const TEST_PROMPT: LanguageModelV1Prompt = [
   { role: "user", content: [{ type: "text", text: "Hello" }] },
@@ -265,7 +271,9 @@ describe("doStream", () => {
 
 describe("Tool Calling", () => {
   it("should allow tool calls with inflection_3_with_tools model", async () => {
-    const model = provider.chat("inflection_3_with_tools");
+    const model = provider.chat("inflection_3_with_tools", {
+      endpoint: "native",
+    });
 
     server.urls[INFERENCE_URL].response = {
       type: "json-value",
@@ -300,7 +308,7 @@ describe("Tool Calling", () => {
       toolCallType: "function",
       toolCallId: "call_123",
       toolName: "get_weather",
-      args: { location: "San Francisco, CA" },
+      args: '{"location": "San Francisco, CA"}',
     });
     expect(result.finishReason).toBe("tool-calls");
   });
@@ -388,7 +396,9 @@ describe("Tool Calling", () => {
   });
 
   it("should handle multiple tool calls in response", async () => {
-    const model = provider.chat("inflection_3_with_tools");
+    const model = provider.chat("inflection_3_with_tools", {
+      endpoint: "native",
+    });
 
     server.urls[INFERENCE_URL].response = {
       type: "json-value",
@@ -466,7 +476,7 @@ describe("Tool Calling", () => {
       toolCallType: "function",
       toolCallId: "call_123",
       toolName: "get_weather",
-      args: { location: "San Francisco, CA" },
+      args: '{"location": "San Francisco, CA"}',
     });
 
     // Verify finish part
@@ -477,6 +487,2257 @@ describe("Tool Calling", () => {
         promptTokens: expect.any(Number),
         completionTokens: expect.any(Number),
       },
+      providerMetadata: {
+        inflection: { attempts: 1, baseURL: INFERENCE_URL },
+      },
+    });
+  });
+});
+
+describe("retries", () => {
+  function createSequenceFetch(responses: Array<() => Response>) {
+    const calls: string[] = [];
+    const fetch = async (url: RequestInfo | URL) => {
+      calls.push(String(url));
+      return responses[Math.min(calls.length, responses.length) - 1]();
+    };
+    return { fetch, calls };
+  }
+
+  const rateLimited = (headers: Record<string, string> = {}) =>
+    new Response(
+      JSON.stringify({
+        error: { message: "Rate limited", type: "rate_limit", code: null },
+      }),
+      { status: 429, headers }
+    );
+
+  const success = () =>
+    new Response(
+      JSON.stringify({ created: 1714688002.0557644, text: "Hello there!" }),
+      { status: 200, headers: { "content-type": "application/json" } }
+    );
+
+  it("should retry retryable status codes and report the attempts", async () => {
+    const { fetch, calls } = createSequenceFetch([
+      () => rateLimited(),
+      () => rateLimited(),
+      success,
+    ]);
+    const model = createInflection({
+      apiKey: "test-api-key",
+      fetch,
+      retry: { maxAttempts: 3, baseDelayMs: 1, jitter: 0 },
+    }).chat("inflection_3_pi");
+
+    const result = await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+    });
+
+    expect(result.text).toBe("Hello there!");
+    expect(calls).toHaveLength(3);
+    expect(result.providerMetadata).toStrictEqual({
+      inflection: { attempts: 3, baseURL: INFERENCE_URL },
+    });
+  });
+
+  it("should not retry by default", async () => {
+    const { fetch, calls } = createSequenceFetch([() => rateLimited(), success]);
+    const model = createInflection({ apiKey: "test-api-key", fetch }).chat(
+      "inflection_3_pi"
+    );
+
+    await expect(
+      model.doGenerate({
+        inputFormat: "prompt",
+        mode: { type: "regular" },
+        prompt: TEST_PROMPT,
+      })
+    ).rejects.toThrow("Rate limited");
+    expect(calls).toHaveLength(1);
+  });
+
+  it("should not retry status codes outside retryStatusCodes", async () => {
+    const { fetch, calls } = createSequenceFetch([() => rateLimited(), success]);
+    const model = createInflection({
+      apiKey: "test-api-key",
+      fetch,
+      retry: { maxAttempts: 3, baseDelayMs: 1, retryStatusCodes: [503] },
+    }).chat("inflection_3_pi");
+
+    await expect(
+      model.doGenerate({
+        inputFormat: "prompt",
+        mode: { type: "regular" },
+        prompt: TEST_PROMPT,
+      })
+    ).rejects.toThrow("Rate limited");
+    expect(calls).toHaveLength(1);
+  });
+
+  it("should wait for the Retry-After header", async () => {
+    const { fetch, calls } = createSequenceFetch([
+      () => rateLimited({ "retry-after-ms": "50" }),
+      success,
+    ]);
+    const model = createInflection({
+      apiKey: "test-api-key",
+      fetch,
+      retry: { maxAttempts: 2, baseDelayMs: 1, jitter: 0 },
+    }).chat("inflection_3_pi");
+
+    const start = Date.now();
+    await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+    });
+
+    expect(calls).toHaveLength(2);
+    expect(Date.now() - start).toBeGreaterThanOrEqual(45);
+  });
+
+  it("should stop waiting when the abort signal fires", async () => {
+    const { fetch, calls } = createSequenceFetch([
+      () => rateLimited({ "retry-after": "60" }),
+      success,
+    ]);
+    const model = createInflection({
+      apiKey: "test-api-key",
+      fetch,
+      retry: { maxAttempts: 2 },
+    }).chat("inflection_3_pi");
+
+    const abortController = new AbortController();
+    setTimeout(() => abortController.abort(), 10);
+
+    await expect(
+      model.doGenerate({
+        inputFormat: "prompt",
+        mode: { type: "regular" },
+        prompt: TEST_PROMPT,
+        abortSignal: abortController.signal,
+      })
+    ).rejects.toThrow(expect.objectContaining({ name: "AbortError" }));
+    expect(calls).toHaveLength(1);
+  });
+});
+
+describe("rate limiting", () => {
+  it("should share the concurrency cap between models of a provider", async () => {
+    const pending: Array<() => void> = [];
+    const fetch = () =>
+      new Promise<Response>((resolve) => {
+        pending.push(() =>
+          resolve(
+            new Response(
+              JSON.stringify({ created: 1714688002, text: "Hello there!" }),
+              { headers: { "content-type": "application/json" } }
+            )
+          )
+        );
+      });
+
+    const provider = createInflection({
+      apiKey: "test-api-key",
+      fetch,
+      rateLimit: { maxConcurrentRequests: 1 },
+    });
+
+    const first = provider.chat("inflection_3_pi").doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+    });
+    const second = provider.chat("inflection_3_productivity").doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+    });
+
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(pending).toHaveLength(1);
+
+    pending[0]();
+    await first;
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(pending).toHaveLength(2);
+
+    pending[1]();
+    expect((await second).text).toBe("Hello there!");
+  });
+});
+
+describe("API key pool", () => {
+  it("should fail over to the next key within the same call", async () => {
+    const usedKeys: string[] = [];
+    const fetch = async (_url: RequestInfo | URL, init?: RequestInit) => {
+      const authorization = (init?.headers as Record<string, string>)
+        .Authorization;
+      usedKeys.push(authorization);
+
+      return authorization === "Bearer key-c"
+        ? new Response(
+            JSON.stringify({ created: 1714688002, text: "Hello there!" }),
+            { headers: { "content-type": "application/json" } }
+          )
+        : new Response(
+            JSON.stringify({
+              error: { message: "Denied", type: "auth", code: null },
+            }),
+            { status: usedKeys.length === 1 ? 401 : 429 }
+          );
+    };
+
+    const model = createInflection({
+      apiKey: ["key-a", "key-b", "key-c"],
+      fetch,
+    }).chat("inflection_3_pi");
+
+    const result = await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+    });
+
+    expect(result.text).toBe("Hello there!");
+    expect(result.providerMetadata).toStrictEqual({
+      inflection: { attempts: 1, baseURL: INFERENCE_URL },
+    });
+    expect(usedKeys).toStrictEqual([
+      "Bearer key-a",
+      "Bearer key-b",
+      "Bearer key-c",
+    ]);
+  });
+});
+
+describe("base URL failover", () => {
+  const PRIMARY_URL = "https://primary.example.com/api";
+  const SECONDARY_URL = "https://secondary.example.com/api";
+
+  function createFetch(failingBaseURLs: string[]) {
+    const calls: string[] = [];
+    const fetch = async (url: RequestInfo | URL) => {
+      calls.push(String(url));
+
+      if (failingBaseURLs.some((baseURL) => String(url).startsWith(baseURL))) {
+        return new Response("", { status: 503 });
+      }
+
+      return new Response(
+        JSON.stringify({ created: 1714688002, text: "Hello there!" }),
+        { headers: { "content-type": "application/json" } }
+      );
+    };
+    return { fetch, calls };
+  }
+
+  it("should fail over to the next base URL on 5xx responses", async () => {
+    const { fetch, calls } = createFetch([PRIMARY_URL]);
+    const model = createInflection({
+      apiKey: "test-api-key",
+      baseURL: [PRIMARY_URL, SECONDARY_URL],
+      fetch,
+    }).chat("inflection_3_pi");
+
+    const result = await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+    });
+
+    expect(calls).toStrictEqual([PRIMARY_URL, SECONDARY_URL]);
+    expect(result.providerMetadata).toStrictEqual({
+      inflection: { attempts: 1, baseURL: SECONDARY_URL },
+    });
+  });
+
+  it("should keep an unhealthy base URL out of rotation", async () => {
+    const { fetch, calls } = createFetch([PRIMARY_URL]);
+    const model = createInflection({
+      apiKey: "test-api-key",
+      baseURL: [PRIMARY_URL, SECONDARY_URL],
+      baseURLCooldownMs: 60000,
+      fetch,
+    }).chat("inflection_3_pi");
+
+    for (let i = 0; i < 2; i++) {
+      await model.doGenerate({
+        inputFormat: "prompt",
+        mode: { type: "regular" },
+        prompt: TEST_PROMPT,
+      });
+    }
+
+    expect(calls).toStrictEqual([PRIMARY_URL, SECONDARY_URL, SECONDARY_URL]);
+  });
+
+  it("should throw the last error when every base URL fails", async () => {
+    const { fetch, calls } = createFetch([PRIMARY_URL, SECONDARY_URL]);
+    const model = createInflection({
+      apiKey: "test-api-key",
+      baseURL: [PRIMARY_URL, SECONDARY_URL],
+      fetch,
+    }).chat("inflection_3_pi");
+
+    await expect(
+      model.doGenerate({
+        inputFormat: "prompt",
+        mode: { type: "regular" },
+        prompt: TEST_PROMPT,
+      })
+    ).rejects.toSatisfy(
+      (error) => APICallError.isInstance(error) && error.statusCode === 503
+    );
+    expect(calls).toStrictEqual([PRIMARY_URL, SECONDARY_URL]);
+  });
+
+  it("should report the base URL in the stream finish part", async () => {
+    const model = createInflection({
+      apiKey: "test-api-key",
+      baseURL: [INFERENCE_URL],
+    }).chat("inflection_3_pi");
+
+    const result = await model.doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+    });
+
+    const parts = await convertReadableStreamToArray(result.stream);
+    expect(parts.at(-1)).toMatchObject({
+      type: "finish",
+      providerMetadata: { inflection: { baseURL: INFERENCE_URL } },
+    });
+  });
+});
+
+describe("timeouts", () => {
+  // never responds, but rejects when the request is aborted:
+  const hangingFetch = (_url: RequestInfo | URL, init?: RequestInit) =>
+    new Promise<Response>((_, reject) => {
+      init?.signal?.addEventListener("abort", () =>
+        reject(init.signal!.reason)
+      );
+    });
+
+  // responds with the given SSE chunks, then keeps the stream open:
+  const stallingStreamFetch = (chunks: string[]) => async () =>
+    new Response(
+      new ReadableStream({
+        start(controller) {
+          for (const chunk of chunks) {
+            controller.enqueue(new TextEncoder().encode(chunk));
+          }
+        },
+      }),
+      { headers: { "content-type": "text/event-stream" } }
+    );
+
+  it("should throw InflectionTimeoutError when a request exceeds timeoutMs", async () => {
+    const model = createInflection({
+      apiKey: "test-api-key",
+      fetch: hangingFetch,
+      timeoutMs: 10,
+    }).chat("inflection_3_pi");
+
+    await expect(
+      model.doGenerate({
+        inputFormat: "prompt",
+        mode: { type: "regular" },
+        prompt: TEST_PROMPT,
+      })
+    ).rejects.toSatisfy(
+      (error) =>
+        InflectionTimeoutError.isInstance(error) &&
+        error.timeoutType === "request" &&
+        error.timeoutMs === 10
+    );
+  });
+
+  it("should prefer the model timeoutMs over the provider setting", async () => {
+    const model = createInflection({
+      apiKey: "test-api-key",
+      fetch: hangingFetch,
+      timeoutMs: 60000,
+    }).chat("inflection_3_pi", { timeoutMs: 10 });
+
+    await expect(
+      model.doGenerate({
+        inputFormat: "prompt",
+        mode: { type: "regular" },
+        prompt: TEST_PROMPT,
+      })
+    ).rejects.toSatisfy(
+      (error) =>
+        InflectionTimeoutError.isInstance(error) && error.timeoutMs === 10
+    );
+  });
+
+  it("should keep user aborts distinct from timeouts", async () => {
+    const model = createInflection({
+      apiKey: "test-api-key",
+      fetch: hangingFetch,
+      timeoutMs: 60000,
+    }).chat("inflection_3_pi");
+
+    const abortController = new AbortController();
+    setTimeout(() => abortController.abort(), 10);
+
+    await expect(
+      model.doGenerate({
+        inputFormat: "prompt",
+        mode: { type: "regular" },
+        prompt: TEST_PROMPT,
+        abortSignal: abortController.signal,
+      })
+    ).rejects.toSatisfy(
+      (error) =>
+        !InflectionTimeoutError.isInstance(error) &&
+        (error as Error).name === "AbortError"
+    );
+  });
+
+  it("should fail the stream when the first chunk does not arrive", async () => {
+    const model = createInflection({
+      apiKey: "test-api-key",
+      fetch: stallingStreamFetch([]),
+      firstChunkTimeoutMs: 10,
+    }).chat("inflection_3_pi");
+
+    const result = await model.doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+    });
+
+    await expect(
+      convertReadableStreamToArray(result.stream)
+    ).rejects.toSatisfy(
+      (error) =>
+        InflectionTimeoutError.isInstance(error) &&
+        error.timeoutType === "first-chunk"
+    );
+  });
+
+  it("should fail the stream when it is idle between chunks", async () => {
+    const model = createInflection({
+      apiKey: "test-api-key",
+      fetch: stallingStreamFetch([
+        'data: {"created": 1728094708.2514212, "idx": 0, "text": "Hello"}\n\n',
+      ]),
+      firstChunkTimeoutMs: 1000,
+    }).chat("inflection_3_pi", { chunkIdleTimeoutMs: 10 });
+
+    const result = await model.doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+    });
+
+    const reader = result.stream.getReader();
+    expect(await reader.read()).toMatchObject({
+      value: { type: "response-metadata" },
+    });
+    expect(await reader.read()).toMatchObject({
+      value: { type: "text-delta", textDelta: "Hello" },
+    });
+
+    await expect(
+      (async () => {
+        for (;;) {
+          const { done } = await reader.read();
+          if (done) return;
+        }
+      })()
+    ).rejects.toSatisfy(
+      (error) =>
+        InflectionTimeoutError.isInstance(error) &&
+        error.timeoutType === "chunk-idle"
+    );
+  });
+
+  it("should not fail the stream when the consumer reads slowly", async () => {
+    const model = createInflection({
+      apiKey: "test-api-key",
+      fetch: async () =>
+        new Response(
+          new ReadableStream({
+            start(controller) {
+              for (const idx of [0, 1, 2, 3, 4, 5]) {
+                controller.enqueue(
+                  new TextEncoder().encode(
+                    `data: ${JSON.stringify({ created: 1728094708, idx, text: `${idx}` })}\n\n`
+                  )
+                );
+              }
+              controller.close();
+            },
+          }),
+          { headers: { "content-type": "text/event-stream" } }
+        ),
+    }).chat("inflection_3_pi", { chunkIdleTimeoutMs: 30 });
+
+    const result = await model.doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+    });
+
+    // the consumer waits longer than the idle timeout between reads:
+    const reader = result.stream.getReader();
+    const partTypes: string[] = [];
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      partTypes.push(value.type);
+      await new Promise((resolve) => setTimeout(resolve, 60));
+    }
+
+    expect(partTypes).toStrictEqual([
+      "response-metadata",
+      ...Array(6).fill("text-delta"),
+      "finish",
+    ]);
+  });
+});
+
+describe("async credentials", () => {
+  it("should resolve apiKey and headers functions per request", async () => {
+    const requestHeaders: Array<Record<string, string>> = [];
+    const fetch = async (_url: RequestInfo | URL, init?: RequestInit) => {
+      requestHeaders.push(init?.headers as Record<string, string>);
+      return new Response(
+        JSON.stringify({ created: 1714688002, text: "Hello there!" }),
+        { headers: { "content-type": "application/json" } }
+      );
+    };
+
+    let counter = 0;
+    const model = createInflection({
+      apiKey: async () => `token-${++counter}`,
+      headers: async () => ({ "x-proxy-token": "proxy" }),
+      fetch,
+    }).chat("inflection_3_pi");
+
+    for (let i = 0; i < 2; i++) {
+      await model.doGenerate({
+        inputFormat: "prompt",
+        mode: { type: "regular" },
+        prompt: TEST_PROMPT,
+      });
+    }
+
+    expect(requestHeaders).toMatchObject([
+      { Authorization: "Bearer token-1", "x-proxy-token": "proxy" },
+      { Authorization: "Bearer token-2", "x-proxy-token": "proxy" },
+    ]);
+  });
+
+  it("should refresh credentials once after a 401", async () => {
+    const authorizations: string[] = [];
+    const fetch = async (_url: RequestInfo | URL, init?: RequestInit) => {
+      const authorization = (init?.headers as Record<string, string>)
+        .Authorization;
+      authorizations.push(authorization);
+
+      return authorization === "Bearer fresh-token"
+        ? new Response(
+            JSON.stringify({ created: 1714688002, text: "Hello there!" }),
+            { headers: { "content-type": "application/json" } }
+          )
+        : new Response("", { status: 401 });
+    };
+
+    const model = createInflection({
+      apiKey: async ({ forceRefresh }) => ({
+        value: forceRefresh ? "fresh-token" : "expired-token",
+        expiresAt: Date.now() + 60000,
+      }),
+      fetch,
+    }).chat("inflection_3_pi");
+
+    const result = await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+    });
+
+    expect(result.text).toBe("Hello there!");
+    expect(authorizations).toStrictEqual([
+      "Bearer expired-token",
+      "Bearer fresh-token",
+    ]);
+  });
+
+  it("should not refresh more than once", async () => {
+    const fetch = vi.fn(async () => new Response("", { status: 401 }));
+    const apiKey = vi.fn(async () => "token");
+
+    const model = createInflection({ apiKey, fetch }).chat("inflection_3_pi");
+
+    await expect(
+      model.doGenerate({
+        inputFormat: "prompt",
+        mode: { type: "regular" },
+        prompt: TEST_PROMPT,
+      })
+    ).rejects.toSatisfy(
+      (error) => APICallError.isInstance(error) && error.statusCode === 401
+    );
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(apiKey).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe("default settings", () => {
+  const provider = createInflection({
+    apiKey: "test-api-key",
+    baseURL: INFERENCE_URL,
+    defaultSettings: {
+      web_search: false,
+      temperature: 0.2,
+      max_tokens: 256,
+      metadata: { user_timezone: "Europe/London", user_country: "England" },
+    },
+  });
+
+  it("should deep-merge provider defaults with model settings", () => {
+    const model = provider.chat("inflection_3_pi", {
+      temperature: 0.7,
+      metadata: { user_firstname: "Alex", user_country: "Scotland" },
+    });
+
+    expect(model.settings).toStrictEqual({
+      web_search: false,
+      temperature: 0.7,
+      max_tokens: 256,
+      metadata: {
+        user_timezone: "Europe/London",
+        user_country: "Scotland",
+        user_firstname: "Alex",
+      },
     });
   });
+
+  it("should let call options override the effective settings", async () => {
+    const model = provider.chat("inflection_3_pi", { temperature: 0.7 });
+
+    await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+      maxTokens: 100,
+    });
+
+    expect(await server.calls[0].requestBody).toMatchObject({
+      web_search: false,
+      temperature: 0.7,
+      max_tokens: 100,
+      metadata: { user_timezone: "Europe/London", user_country: "England" },
+    });
+  });
+});
+
+describe("model capabilities", () => {
+  it("should allow tools for custom models registered with tool support", async () => {
+    const provider = createInflection({
+      apiKey: "test-api-key",
+      baseURL: INFERENCE_URL,
+      models: { "my-tools-alias": { supportsTools: true, endpoint: "openai" } },
+    });
+    const model = provider.chat("my-tools-alias");
+
+    const result = await model.doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular", tools: [TEST_TOOL] },
+      prompt: TEST_PROMPT,
+    });
+    await convertReadableStreamToArray(result.stream);
+
+    expect(server.calls[0].requestUrl).toBe(OPENAI_STREAMING_URL);
+  });
+
+  it("should apply capabilities registered after provider creation", async () => {
+    const provider = createInflection({
+      apiKey: "test-api-key",
+      baseURL: INFERENCE_URL,
+    });
+    const model = provider.chat("inflection_4_preview");
+
+    expect(model.capabilities.supportsTools).toBe(false);
+
+    provider.registerModel("inflection_4_preview", {
+      supportsTools: true,
+      contextWindow: 32000,
+    });
+
+    expect(model.capabilities).toStrictEqual({
+      supportsTools: true,
+      endpoint: "native",
+      contextWindow: 32000,
+      defaultMaxTokens: 1024,
+    });
+
+    await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular", tools: [TEST_TOOL] },
+      prompt: TEST_PROMPT,
+    });
+
+    expect(await server.calls[0].requestBody).toMatchObject({
+      config: "inflection_4_preview",
+      max_tokens: 1024,
+      tools: [{ type: "function", function: { name: "get_weather" } }],
+    });
+  });
+
+  it("should merge overrides of a built-in model over its capabilities", () => {
+    const provider = createInflection({
+      models: { inflection_3_with_tools: { contextWindow: 16000 } },
+    });
+
+    provider.registerModel("inflection_3_with_tools", {
+      defaultMaxTokens: 2048,
+    });
+
+    expect(
+      provider.chat("inflection_3_with_tools").capabilities
+    ).toStrictEqual({
+      supportsTools: true,
+      endpoint: "openai",
+      contextWindow: 16000,
+      defaultMaxTokens: 2048,
+    });
+  });
+
+  it("should keep registrations separate between providers", () => {
+    createInflection({ models: { "custom-model": { supportsTools: true } } });
+
+    expect(
+      createInflection().chat("custom-model").capabilities.supportsTools
+    ).toBe(false);
+  });
+});
+
+describe("model aliases", () => {
+  const provider = createInflection({
+    apiKey: "test-api-key",
+    baseURL: INFERENCE_URL,
+    defaultSettings: { temperature: 0.5, max_tokens: 256 },
+    aliases: {
+      "support-bot": {
+        modelId: "inflection_3_pi",
+        settings: { web_search: false, temperature: 0.2 },
+      },
+      summarizer: { modelId: "inflection_3_productivity" },
+    },
+  });
+
+  it("should create the underlying model with the alias settings", async () => {
+    const model = provider("support-bot", { max_tokens: 512 });
+
+    expect(model.modelId).toBe("inflection_3_pi");
+    expect(model.settings).toStrictEqual({
+      web_search: false,
+      temperature: 0.2,
+      max_tokens: 512,
+    });
+
+    await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+    });
+
+    expect(await server.calls[0].requestBody).toMatchObject({
+      config: "inflection_3_pi",
+      web_search: false,
+      temperature: 0.2,
+      max_tokens: 512,
+    });
+  });
+
+  it("should still accept built-in model IDs", () => {
+    expect(provider.chat("inflection_3_with_tools").modelId).toBe(
+      "inflection_3_with_tools"
+    );
+  });
+
+  it("should accept the custom models of the models setting", () => {
+    const provider = createInflection({
+      apiKey: "test-api-key",
+      models: { "my-model": { supportsTools: true, endpoint: "openai" } },
+      aliases: { "support-bot": { modelId: "my-model" } },
+    });
+
+    expect(provider("my-model").capabilities).toMatchObject({
+      supportsTools: true,
+      endpoint: "openai",
+    });
+    expect(provider("support-bot").modelId).toBe("my-model");
+  });
+
+  it("should reject misspelled aliases at compile time", () => {
+    // @ts-expect-error misspelled alias
+    const model = provider.languageModel("suport-bot");
+
+    expect(model.modelId).toBe("suport-bot");
+  });
+});
+
+describe("token counting", () => {
+  it("should count the prompt including instructions and tools", () => {
+    const model = provider.chat("inflection_3_with_tools");
+    const prompt: LanguageModelV1Prompt = [
+      { role: "system", content: "Be helpful." },
+      ...TEST_PROMPT,
+    ];
+
+    const withoutTools = model.countTokens(prompt);
+    const withTools = model.countTokens(prompt, {
+      type: "regular",
+      tools: [TEST_TOOL],
+    });
+
+    expect(withoutTools).toBeGreaterThan(model.countTokens(TEST_PROMPT));
+    expect(withTools).toBeGreaterThan(withoutTools);
+  });
+
+  it("should use a custom tokenizer for usage", async () => {
+    const model = createInflection({
+      apiKey: "test-api-key",
+      baseURL: INFERENCE_URL,
+      tokenizer: { countTokens: (text) => text.length },
+    }).chat("inflection_3_pi");
+
+    const { usage } = await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+    });
+
+    expect(usage).toStrictEqual({
+      promptTokens: 4 + "Hello".length,
+      completionTokens: "Hello there!".length,
+    });
+  });
+
+  it("should count streamed tool call arguments as completion tokens", async () => {
+    const model = createInflection({
+      apiKey: "test-api-key",
+      baseURL: INFERENCE_URL,
+      tokenizer: { countTokens: (text) => text.length },
+    }).chat("inflection_3_with_tools");
+
+    const { stream } = await model.doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular", tools: [TEST_TOOL] },
+      prompt: TEST_PROMPT,
+    });
+    const parts = await convertReadableStreamToArray(stream);
+
+    expect(parts.at(-1)).toMatchObject({
+      type: "finish",
+      usage: {
+        completionTokens:
+          "Let me check the weather for you.".length +
+          '{"location": "San Francisco, CA"}'.length,
+      },
+    });
+  });
+});
+
+describe("context strategy", () => {
+  const longPrompt: LanguageModelV1Prompt = [
+    { role: "system", content: "You are Pi." },
+    ...Array.from({ length: 20 }, (_, i): LanguageModelV1Prompt[number] =>
+      i % 2 === 0
+        ? {
+            role: "user",
+            content: [{ type: "text", text: `Question ${i} `.repeat(50) }],
+          }
+        : {
+            role: "assistant",
+            content: [{ type: "text", text: `Answer ${i} `.repeat(50) }],
+          }
+    ),
+    { role: "user", content: [{ type: "text", text: "Hello" }] },
+  ];
+
+  it("should drop the oldest turns and warn when the prompt exceeds the budget", async () => {
+    const model = provider.chat("inflection_3_pi", {
+      contextStrategy: { type: "drop-oldest", maxPromptTokens: 1000 },
+    });
+
+    const { warnings } = await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: longPrompt,
+    });
+
+    const { context } = await server.calls[0].requestBody;
+    expect(context[0]).toStrictEqual({
+      type: "Instruction",
+      text: "You are Pi.",
+    });
+    expect(context[context.length - 1]).toStrictEqual({
+      type: "Human",
+      text: "Hello",
+    });
+    // the full prompt is counted, before it is trimmed:
+    expect(model.countTokens(longPrompt)).toBeGreaterThan(1000);
+    expect(warnings).toStrictEqual([
+      {
+        type: "other",
+        message: `Trimmed ${22 - context.length} messages to fit the context window (${22 - context.length} dropped, 0 truncated).`,
+      },
+    ]);
+  });
+
+  it("should send the full prompt when no strategy is set", async () => {
+    const { warnings } = await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: longPrompt,
+    });
+
+    expect((await server.calls[0].requestBody).context).toHaveLength(22);
+    expect(warnings).toStrictEqual([]);
+  });
+});
+
+describe("memory", () => {
+  const conversation: LanguageModelV1Prompt = [
+    { role: "system", content: "You are Pi." },
+    ...Array.from({ length: 6 }, (_, i): LanguageModelV1Prompt[number] =>
+      i % 2 === 0
+        ? { role: "user", content: [{ type: "text", text: `Question ${i}` }] }
+        : {
+            role: "assistant",
+            content: [{ type: "text", text: `Answer ${i}` }],
+          }
+    ),
+  ];
+
+  it("should summarize older turns with the configured model", async () => {
+    const model = createInflection({
+      apiKey: "test-api-key",
+      baseURL: INFERENCE_URL,
+    }).chat("inflection_3_pi", {
+      memory: {
+        maxMessages: 4,
+        keepRecentMessages: 2,
+        modelId: "inflection_3_productivity",
+      },
+    });
+
+    await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: conversation,
+      providerMetadata: { inflection: { conversationId: "conversation-1" } },
+    });
+
+    expect(await server.calls[0].requestBody).toMatchObject({
+      config: "inflection_3_productivity",
+      max_tokens: 512,
+    });
+    expect((await server.calls[1].requestBody).context).toStrictEqual([
+      { type: "Instruction", text: "You are Pi." },
+      {
+        type: "Instruction",
+        text: "Summary of the earlier conversation:\nHello there!",
+      },
+      { type: "Human", text: "Question 4" },
+      { type: "AI", text: "Answer 5" },
+    ]);
+
+    // the cached summary is reused:
+    await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: conversation,
+      providerMetadata: { inflection: { conversationId: "conversation-1" } },
+    });
+
+    expect(server.calls).toHaveLength(3);
+  });
+});
+
+describe("usage tracking", () => {
+  it("should report the usage and cost of generate calls", async () => {
+    const onUsage = vi.fn();
+    const model = createInflection({
+      apiKey: "test-api-key",
+      baseURL: INFERENCE_URL,
+      onUsage,
+      prices: { inflection_3_pi: { promptTokens: 2, completionTokens: 10 } },
+    }).chat("inflection_3_pi");
+
+    const { usage } = await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+      providerMetadata: { inflection: { tags: ["customer-a"] } },
+    });
+
+    expect(onUsage).toHaveBeenCalledTimes(1);
+    expect(onUsage).toHaveBeenCalledWith({
+      modelId: "inflection_3_pi",
+      type: "generate",
+      ...usage,
+      estimated: true,
+      latencyMs: expect.any(Number),
+      tags: ["customer-a"],
+      cost: (usage.promptTokens * 2 + usage.completionTokens * 10) / 1_000_000,
+    });
+  });
+
+  it("should report the usage once a stream completes", async () => {
+    const onUsage = vi.fn();
+    const model = createInflection({
+      apiKey: "test-api-key",
+      baseURL: INFERENCE_URL,
+      tokenizer: { countTokens: (text) => text.length },
+      onUsage,
+    }).chat("inflection_3_pi");
+
+    const result = await model.doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+    });
+
+    expect(onUsage).not.toHaveBeenCalled();
+
+    await convertReadableStreamToArray(result.stream);
+
+    expect(onUsage).toHaveBeenCalledTimes(1);
+    expect(onUsage).toHaveBeenCalledWith(
+      expect.objectContaining({
+        type: "stream",
+        completionTokens: "Hello there!".length,
+        estimated: true,
+        tags: [],
+        cost: undefined,
+      })
+    );
+  });
+
+  it("should report the usage of memory summarization requests", async () => {
+    const onUsage = vi.fn();
+    const model = createInflection({
+      apiKey: "test-api-key",
+      baseURL: INFERENCE_URL,
+      onUsage,
+      prices: {
+        inflection_3_productivity: { promptTokens: 1, completionTokens: 1 },
+      },
+    }).chat("inflection_3_pi", {
+      memory: {
+        maxMessages: 2,
+        keepRecentMessages: 1,
+        modelId: "inflection_3_productivity",
+      },
+    });
+
+    await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: [
+        { role: "user", content: [{ type: "text", text: "Question 1" }] },
+        { role: "assistant", content: [{ type: "text", text: "Answer 1" }] },
+        { role: "user", content: [{ type: "text", text: "Question 2" }] },
+      ],
+    });
+
+    expect(onUsage.mock.calls.map(([event]) => event.type)).toStrictEqual([
+      "summary",
+      "generate",
+    ]);
+    expect(onUsage.mock.calls[0][0]).toMatchObject({
+      modelId: "inflection_3_productivity",
+      completionTokens:
+        approximateInflectionTokenizer.countTokens("Hello there!"),
+      estimated: true,
+      cost: expect.any(Number),
+    });
+  });
+
+  it("should not fail the call when the callback throws", async () => {
+    const model = createInflection({
+      apiKey: "test-api-key",
+      baseURL: INFERENCE_URL,
+      onUsage: () => {
+        throw new Error("ledger unavailable");
+      },
+    }).chat("inflection_3_pi");
+
+    const { text } = await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+    });
+
+    expect(text).toBe("Hello there!");
+  });
+});
+
+describe("streamed tool call fragments", () => {
+  it("should assemble tool calls whose arguments span several chunks", async () => {
+    const chunk = (
+      delta: Record<string, unknown>,
+      finish_reason: string | null = null
+    ) =>
+      "data: " +
+      JSON.stringify({
+        id: "1",
+        object: "chat.completion.chunk",
+        created: 1728094708,
+        model: "inflection_3_with_tools",
+        choices: [{ index: 0, delta, finish_reason }],
+      }) +
+      "\n\n";
+
+    server.urls[OPENAI_STREAMING_URL].response = {
+      type: "stream-chunks",
+      chunks: [
+        chunk({
+          tool_calls: [
+            {
+              index: 0,
+              id: "call_123",
+              type: "function",
+              function: { name: "get_weather", arguments: "" },
+            },
+          ],
+        }),
+        chunk({
+          tool_calls: [{ index: 0, function: { arguments: '{"locat' } }],
+        }),
+        chunk({
+          tool_calls: [
+            { index: 0, function: { arguments: 'ion": "Paris"}' } },
+          ],
+        }),
+        chunk({}, "tool_calls"),
+      ],
+    };
+
+    const model = provider.chat("inflection_3_with_tools");
+    const result = await model.doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular", tools: [TEST_TOOL] },
+      prompt: TEST_PROMPT,
+    });
+
+    const parts = await convertReadableStreamToArray(result.stream);
+
+    expect(parts.filter((part) => part.type === "error")).toStrictEqual([]);
+    expect(
+      parts
+        .filter((part) => part.type === "tool-call-delta")
+        .map((part) => part.argsTextDelta)
+    ).toStrictEqual(['{"locat', 'ion": "Paris"}']);
+    expect(parts.filter((part) => part.type === "tool-call")).toStrictEqual([
+      {
+        type: "tool-call",
+        toolCallType: "function",
+        toolCallId: "call_123",
+        toolName: "get_weather",
+        args: '{"location": "Paris"}',
+      },
+    ]);
+    expect(parts.at(-1)).toMatchObject({
+      type: "finish",
+      finishReason: "tool-calls",
+    });
+  });
+});
+
+describe("stream finish", () => {
+  it("should emit response metadata first and a single finish last", async () => {
+    const result = await model.doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+    });
+
+    const parts = await convertReadableStreamToArray(result.stream);
+
+    expect(parts[0]).toStrictEqual({
+      type: "response-metadata",
+      id: undefined,
+      modelId: undefined,
+      timestamp: new Date(1728094708251.4212),
+    });
+    expect(parts.filter((part) => part.type === "finish")).toHaveLength(1);
+    expect(parts.at(-1)).toStrictEqual({
+      type: "finish",
+      finishReason: "stop",
+      usage: {
+        promptTokens: model.countTokens(TEST_PROMPT),
+        completionTokens: approximateInflectionTokenizer.countTokens(
+          "Hello there!"
+        ),
+      },
+      providerMetadata: {
+        inflection: { attempts: 1, baseURL: INFERENCE_URL },
+      },
+    });
+  });
+
+  it("should map the finish reason of the OpenAI-compatible endpoint", async () => {
+    server.urls[OPENAI_STREAMING_URL].response = {
+      type: "stream-chunks",
+      chunks: [
+        "data: " +
+          JSON.stringify({
+            id: "1",
+            object: "chat.completion.chunk",
+            created: 1728094708,
+            model: "inflection_3_with_tools",
+            choices: [
+              {
+                index: 0,
+                delta: { content: "Sorry" },
+                finish_reason: "content_filter",
+              },
+            ],
+          }) +
+          "\n\n",
+      ],
+    };
+
+    const result = await provider.chat("inflection_3_with_tools").doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular", tools: [TEST_TOOL] },
+      prompt: TEST_PROMPT,
+    });
+
+    const parts = await convertReadableStreamToArray(result.stream);
+
+    expect(parts.filter((part) => part.type === "finish")).toMatchObject([
+      { finishReason: "content-filter" },
+    ]);
+  });
+});
+
+describe("resilient streaming", () => {
+  const encoder = new TextEncoder();
+
+  const sseResponse = (events: string[], { drop = false } = {}) => {
+    const remaining = [...events];
+    return new Response(
+      new ReadableStream<Uint8Array>({
+        pull(controller) {
+          const next = remaining.shift();
+          if (next != null) {
+            controller.enqueue(encoder.encode(`data: ${next}\n\n`));
+          } else if (drop) {
+            controller.error(new TypeError("terminated"));
+          } else {
+            controller.close();
+          }
+        },
+      }),
+      { status: 200, headers: { "content-type": "text/event-stream" } }
+    );
+  };
+
+  const event = (idx: number, text: string) =>
+    JSON.stringify({ created: 1728094708, idx, text });
+
+  it("should continue a dropped stream from the partial answer", async () => {
+    const bodies: unknown[] = [];
+    const responses = [
+      () => sseResponse([event(0, "Hello")], { drop: true }),
+      () => sseResponse([event(0, "Hello"), event(1, " there"), event(2, "!")]),
+    ];
+    const model = createInflection({
+      apiKey: "test-api-key",
+      fetch: async (_url, init) => {
+        bodies.push(JSON.parse(init!.body as string));
+        return responses[bodies.length - 1]();
+      },
+    }).chat("inflection_3_pi", { resilientStreaming: { maxReconnects: 1 } });
+
+    const result = await model.doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+    });
+
+    const parts = await convertReadableStreamToArray(result.stream);
+
+    expect(
+      parts
+        .filter((part) => part.type === "text-delta")
+        .map((part) => part.textDelta)
+        .join("")
+    ).toBe("Hello there!");
+    expect(bodies[1]).toMatchObject({
+      context: [
+        { type: "Human", text: "Hello" },
+        { type: "AI", text: "Hello" },
+      ],
+    });
+  });
+
+  it("should fail with the recovered text when the stream cannot be resumed", async () => {
+    const model = createInflection({
+      apiKey: "test-api-key",
+      fetch: async () => sseResponse([event(0, "Hello")], { drop: true }),
+    }).chat("inflection_3_pi", { resilientStreaming: { maxReconnects: 1 } });
+
+    const result = await model.doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+    });
+
+    await expect(
+      convertReadableStreamToArray(result.stream)
+    ).rejects.toSatisfy(
+      (error) =>
+        InflectionStreamInterruptedError.isInstance(error) &&
+        error.recoveredText === "Hello"
+    );
+  });
+});
+
+describe("native stream ordering", () => {
+  const event = (idx: number, text: string) =>
+    `data: ${JSON.stringify({ created: 1728094708, idx, text })}\n\n`;
+
+  it("should reorder and de-duplicate chunks by idx", async () => {
+    server.urls[STREAMING_URL].response = {
+      type: "stream-chunks",
+      chunks: [
+        event(0, "Hello"),
+        event(2, "!"),
+        event(1, " there"),
+        event(1, " there"),
+      ],
+    };
+
+    const result = await model.doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+    });
+
+    const parts = await convertReadableStreamToArray(result.stream);
+
+    expect(
+      parts
+        .filter((part) => part.type === "text-delta")
+        .map((part) => part.textDelta)
+    ).toStrictEqual(["Hello", " there", "!"]);
+    expect(parts.at(-1)).not.toHaveProperty(
+      "providerMetadata.inflection.missingChunks"
+    );
+  });
+
+  it("should report missing chunks on the finish part", async () => {
+    server.urls[STREAMING_URL].response = {
+      type: "stream-chunks",
+      chunks: [event(0, "Hello"), event(3, "!")],
+    };
+
+    const result = await model.doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+    });
+
+    const parts = await convertReadableStreamToArray(result.stream);
+
+    expect(
+      parts
+        .filter((part) => part.type === "text-delta")
+        .map((part) => part.textDelta)
+    ).toStrictEqual(["Hello", "!"]);
+    expect(parts.at(-1)).toMatchObject({
+      type: "finish",
+      providerMetadata: {
+        inflection: { missingChunks: [{ fromIdx: 1, toIdx: 2 }] },
+      },
+    });
+    expect(result.warnings).toStrictEqual([]);
+  });
+});
+
+describe("tool choice", () => {
+  const model = provider.chat("inflection_3_with_tools", {
+    endpoint: "native",
+  });
+  const TIME_TOOL = { ...TEST_TOOL, name: "get_time" };
+
+  it.each([
+    [{ type: "auto" as const }, "auto"],
+    [{ type: "none" as const }, "none"],
+    [{ type: "required" as const }, "any"],
+  ])(
+    "should send tool choice %o to the native endpoint",
+    async (toolChoice, expected) => {
+      await model.doGenerate({
+        inputFormat: "prompt",
+        mode: { type: "regular", tools: [TEST_TOOL, TIME_TOOL], toolChoice },
+        prompt: TEST_PROMPT,
+      });
+
+      const requestBody = await server.calls[0].requestBody;
+      expect(requestBody.tool_choice).toBe(expected);
+      expect(requestBody.tools).toHaveLength(2);
+    }
+  );
+
+  it("should restrict the tools to a specific tool", async () => {
+    await model.doGenerate({
+      inputFormat: "prompt",
+      mode: {
+        type: "regular",
+        tools: [TEST_TOOL, TIME_TOOL],
+        toolChoice: { type: "tool", toolName: "get_time" },
+      },
+      prompt: TEST_PROMPT,
+    });
+
+    expect(await server.calls[0].requestBody).toMatchObject({
+      tool_choice: "any",
+      tools: [{ type: "function", function: { name: "get_time" } }],
+    });
+  });
+
+  it("should send the tool choice to the OpenAI-compatible endpoint", async () => {
+    const result = await provider.chat("inflection_3_with_tools").doStream({
+      inputFormat: "prompt",
+      mode: {
+        type: "regular",
+        tools: [TEST_TOOL, TIME_TOOL],
+        toolChoice: { type: "required" },
+      },
+      prompt: TEST_PROMPT,
+    });
+    await convertReadableStreamToArray(result.stream);
+
+    expect(server.calls[0].requestUrl).toBe(OPENAI_STREAMING_URL);
+    expect(await server.calls[0].requestBody).toMatchObject({
+      tool_choice: "required",
+      tools: [
+        { type: "function", function: { name: "get_weather" } },
+        { type: "function", function: { name: "get_time" } },
+      ],
+    });
+  });
+
+  it("should not send a tool choice without tools", async () => {
+    await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular", toolChoice: { type: "auto" } },
+      prompt: TEST_PROMPT,
+    });
+
+    expect(await server.calls[0].requestBody).not.toHaveProperty("tool_choice");
+  });
+
+  it("should warn about provider-defined tools", async () => {
+    const providerDefinedTool = {
+      type: "provider-defined" as const,
+      id: "inflection.unknown" as const,
+      name: "unknown",
+      args: {},
+    };
+
+    const result = await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular", tools: [TEST_TOOL, providerDefinedTool] },
+      prompt: TEST_PROMPT,
+    });
+
+    expect(result.warnings).toStrictEqual([
+      { type: "unsupported-tool", tool: providerDefinedTool },
+    ]);
+    expect((await server.calls[0].requestBody).tools).toHaveLength(1);
+  });
+});
+
+describe("endpoint", () => {
+  const OPENAI_RESPONSE = {
+    id: "chatcmpl-1",
+    object: "chat.completion",
+    created: 1728094708,
+    model: "inflection_3_with_tools",
+    choices: [
+      {
+        index: 0,
+        message: {
+          role: "assistant",
+          content: "Let me check the weather for you.",
+          tool_calls: [
+            {
+              id: "call_123",
+              type: "function",
+              function: {
+                name: "get_weather",
+                arguments: '{"location": "San Francisco, CA"}',
+              },
+            },
+          ],
+        },
+        finish_reason: "tool_calls",
+      },
+    ],
+  };
+
+  it("should generate with tools through the OpenAI-compatible endpoint by default", async () => {
+    server.urls[OPENAI_STREAMING_URL].response = {
+      type: "json-value",
+      body: OPENAI_RESPONSE,
+    };
+
+    const result = await provider
+      .chat("inflection_3_with_tools", {
+        web_search: false,
+        metadata: { user_firstname: "Sam" },
+      })
+      .doGenerate({
+        inputFormat: "prompt",
+        mode: { type: "regular", tools: [TEST_TOOL] },
+        prompt: [{ role: "system", content: "Be brief." }, ...TEST_PROMPT],
+        maxTokens: 100,
+        temperature: 0.5,
+        topP: 0.9,
+        stopSequences: ["END"],
+      });
+
+    expect(server.calls[0].requestUrl).toBe(OPENAI_STREAMING_URL);
+    expect(await server.calls[0].requestBody).toStrictEqual({
+      model: "inflection_3_with_tools",
+      messages: [
+        { role: "system", content: "Be brief." },
+        { role: "user", content: "Hello" },
+      ],
+      max_tokens: 100,
+      temperature: 0.5,
+      top_p: 0.9,
+      stop: ["END"],
+      web_search: false,
+      metadata: { user_firstname: "Sam" },
+      tools: [
+        {
+          type: "function",
+          function: {
+            name: "get_weather",
+            description: "Get the current weather in a location",
+            parameters: TEST_TOOL.parameters,
+          },
+        },
+      ],
+    });
+
+    expect(result.text).toBe("Let me check the weather for you.");
+    expect(result.toolCalls).toStrictEqual([
+      {
+        toolCallType: "function",
+        toolCallId: "call_123",
+        toolName: "get_weather",
+        args: '{"location": "San Francisco, CA"}',
+      },
+    ]);
+    expect(result.finishReason).toBe("tool-calls");
+    expect(result.response).toStrictEqual({
+      id: "chatcmpl-1",
+      modelId: "inflection_3_with_tools",
+      timestamp: new Date(1728094708 * 1000),
+    });
+  });
+
+  it("should send all calls to the OpenAI-compatible endpoint when selected", async () => {
+    server.urls[OPENAI_STREAMING_URL].response = {
+      type: "json-value",
+      body: {
+        ...OPENAI_RESPONSE,
+        choices: [
+          {
+            index: 0,
+            message: { role: "assistant", content: "Hello there!" },
+            finish_reason: "length",
+          },
+        ],
+      },
+    };
+
+    const model = provider.chat("inflection_3_pi", { endpoint: "openai" });
+    const result = await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular" },
+      prompt: TEST_PROMPT,
+    });
+
+    expect(server.calls[0].requestUrl).toBe(OPENAI_STREAMING_URL);
+    expect(await server.calls[0].requestBody).toMatchObject({
+      model: "inflection_3_pi",
+      messages: [{ role: "user", content: "Hello" }],
+    });
+    expect(result.text).toBe("Hello there!");
+    expect(result.finishReason).toBe("length");
+  });
+
+  it("should stream with tools through the native endpoint when selected", async () => {
+    const model = provider.chat("inflection_3_with_tools", {
+      endpoint: "native",
+    });
+
+    const result = await model.doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular", tools: [TEST_TOOL] },
+      prompt: TEST_PROMPT,
+    });
+    await convertReadableStreamToArray(result.stream);
+
+    expect(server.calls[0].requestUrl).toBe(STREAMING_URL);
+    expect(await server.calls[0].requestBody).toMatchObject({
+      config: "inflection_3_with_tools",
+      stream: true,
+      tools: [{ type: "function", function: { name: "get_weather" } }],
+    });
+  });
+});
+
+describe("tool emulation", () => {
+  const model = provider.chat("inflection_3_pi", { emulateTools: true });
+  const TOOL_CALL_REPLY =
+    '{"tool_calls":[{"name":"get_weather","arguments":{"location":"Paris"}}]}';
+
+  it("should describe the tools in an instruction", async () => {
+    await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular", tools: [TEST_TOOL] },
+      prompt: TEST_PROMPT,
+    });
+
+    const requestBody = await server.calls[0].requestBody;
+    expect(requestBody.tools).toBeUndefined();
+    expect(requestBody.context).toMatchObject([
+      { type: "Instruction" },
+      { type: "Human", text: "Hello" },
+    ]);
+    expect(requestBody.context[0].text).toContain('"name":"get_weather"');
+  });
+
+  it("should return tool calls from generated replies", async () => {
+    server.urls[INFERENCE_URL].response = {
+      type: "json-value",
+      body: { created: 1714688002.0557644, text: TOOL_CALL_REPLY },
+    };
+
+    const result = await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular", tools: [TEST_TOOL] },
+      prompt: TEST_PROMPT,
+    });
+
+    expect(result.text).toBe("");
+    expect(result.toolCalls).toStrictEqual([
+      {
+        toolCallType: "function",
+        toolCallId: expect.any(String),
+        toolName: "get_weather",
+        args: '{"location":"Paris"}',
+      },
+    ]);
+    expect(result.finishReason).toBe("tool-calls");
+  });
+
+  it("should return tool calls from streamed replies", async () => {
+    server.urls[STREAMING_URL].response = {
+      type: "stream-chunks",
+      chunks: [
+        `data: ${JSON.stringify({ created: 1728094708, idx: 0, text: TOOL_CALL_REPLY.slice(0, 20) })}\n\n`,
+        `data: ${JSON.stringify({ created: 1728094708, idx: 1, text: TOOL_CALL_REPLY.slice(20) })}\n\n`,
+      ],
+    };
+
+    const result = await model.doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular", tools: [TEST_TOOL] },
+      prompt: TEST_PROMPT,
+    });
+    const parts = await convertReadableStreamToArray(result.stream);
+
+    expect(parts.filter((part) => part.type === "text-delta")).toStrictEqual(
+      []
+    );
+    expect(parts.find((part) => part.type === "tool-call")).toStrictEqual({
+      type: "tool-call",
+      toolCallType: "function",
+      toolCallId: expect.any(String),
+      toolName: "get_weather",
+      args: '{"location":"Paris"}',
+    });
+    expect(parts.at(-1)).toMatchObject({
+      type: "finish",
+      finishReason: "tool-calls",
+    });
+  });
+
+  it("should stream plain text replies", async () => {
+    const result = await model.doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular", tools: [TEST_TOOL] },
+      prompt: TEST_PROMPT,
+    });
+    const parts = await convertReadableStreamToArray(result.stream);
+
+    expect(
+      parts
+        .filter((part) => part.type === "text-delta")
+        .map((part) => part.textDelta)
+    ).toStrictEqual(["Hello", " there", "!"]);
+    expect(parts.at(-1)).toMatchObject({
+      type: "finish",
+      finishReason: "stop",
+    });
+  });
+
+  it("should send tool results back as text", async () => {
+    await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular", tools: [TEST_TOOL] },
+      prompt: [
+        ...TEST_PROMPT,
+        {
+          role: "assistant",
+          content: [
+            {
+              type: "tool-call",
+              toolCallId: "call-1",
+              toolName: "get_weather",
+              args: { location: "Paris" },
+            },
+          ],
+        },
+        {
+          role: "tool",
+          content: [
+            {
+              type: "tool-result",
+              toolCallId: "call-1",
+              toolName: "get_weather",
+              result: { temperature: 21 },
+            },
+          ],
+        },
+      ],
+    });
+
+    expect((await server.calls[0].requestBody).context.slice(1)).toStrictEqual([
+      { type: "Human", text: "Hello" },
+      {
+        type: "AI",
+        text: '{"tool_calls":[{"id":"call-1","name":"get_weather","arguments":{"location":"Paris"}}]}',
+      },
+      {
+        type: "Human",
+        text: 'Tool results:\n[{"id":"call-1","name":"get_weather","result":{"temperature":21}}]',
+      },
+    ]);
+  });
+
+  it("should still reject tools without emulation", async () => {
+    await expect(
+      provider.chat("inflection_3_pi").doGenerate({
+        inputFormat: "prompt",
+        mode: { type: "regular", tools: [TEST_TOOL] },
+        prompt: TEST_PROMPT,
+      })
+    ).rejects.toThrow(
+      "Tool calls are only supported with the inflection_3_with_tools model"
+    );
+  });
+
+  it("should not send native tools to the OpenAI-compatible endpoint", async () => {
+    const result = await provider
+      .chat("inflection_3_pi", { emulateTools: true, endpoint: "openai" })
+      .doStream({
+        inputFormat: "prompt",
+        mode: {
+          type: "regular",
+          tools: [TEST_TOOL],
+          toolChoice: { type: "required" },
+        },
+        prompt: TEST_PROMPT,
+      });
+    await convertReadableStreamToArray(result.stream);
+
+    const requestBody = await server.calls[0].requestBody;
+    expect(server.calls[0].requestUrl).toBe(OPENAI_STREAMING_URL);
+    expect(requestBody).not.toHaveProperty("tools");
+    expect(requestBody).not.toHaveProperty("tool_choice");
+    expect(requestBody.messages[0]).toMatchObject({
+      role: "system",
+      content: expect.stringContaining("get_weather"),
+    });
+  });
+
+  it("should report tool-calls for emulated tool calls with a reported finish reason", async () => {
+    server.urls[OPENAI_STREAMING_URL].response = {
+      type: "json-value",
+      body: {
+        id: "1",
+        object: "chat.completion",
+        created: 1728094708,
+        model: "inflection_3_pi",
+        choices: [
+          {
+            index: 0,
+            message: { role: "assistant", content: TOOL_CALL_REPLY },
+            finish_reason: "stop",
+          },
+        ],
+      },
+    };
+
+    const result = await provider
+      .chat("inflection_3_pi", { emulateTools: true, endpoint: "openai" })
+      .doGenerate({
+        inputFormat: "prompt",
+        mode: { type: "regular", tools: [TEST_TOOL] },
+        prompt: TEST_PROMPT,
+      });
+
+    expect(result.toolCalls).toHaveLength(1);
+    expect(result.finishReason).toBe("tool-calls");
+  });
+
+  it("should report tool-calls for streamed emulated tool calls with a reported finish reason", async () => {
+    server.urls[OPENAI_STREAMING_URL].response = {
+      type: "stream-chunks",
+      chunks: [
+        `data: ${JSON.stringify({
+          id: "1",
+          object: "chat.completion.chunk",
+          created: 1728094708,
+          model: "inflection_3_pi",
+          choices: [
+            {
+              index: 0,
+              delta: { content: TOOL_CALL_REPLY },
+              finish_reason: "stop",
+            },
+          ],
+        })}\n\n`,
+        "data: [DONE]\n\n",
+      ],
+    };
+
+    const result = await provider
+      .chat("inflection_3_pi", { emulateTools: true, endpoint: "openai" })
+      .doStream({
+        inputFormat: "prompt",
+        mode: { type: "regular", tools: [TEST_TOOL] },
+        prompt: TEST_PROMPT,
+      });
+    const parts = await convertReadableStreamToArray(result.stream);
+
+    expect(parts.filter((part) => part.type === "tool-call")).toHaveLength(1);
+    expect(parts.at(-1)).toMatchObject({
+      type: "finish",
+      finishReason: "tool-calls",
+    });
+  });
+});
+
+describe("parallel tool results", () => {
+  it("should send one tool message per result to the OpenAI-compatible endpoint", async () => {
+    const result = await provider.chat("inflection_3_with_tools").doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular", tools: [TEST_TOOL] },
+      prompt: [
+        ...TEST_PROMPT,
+        {
+          role: "assistant",
+          content: [
+            {
+              type: "tool-call",
+              toolCallId: "call-1",
+              toolName: "get_weather",
+              args: { location: "Paris" },
+            },
+            {
+              type: "tool-call",
+              toolCallId: "call-2",
+              toolName: "get_weather",
+              args: { location: "Rome" },
+            },
+          ],
+        },
+        {
+          role: "tool",
+          content: [
+            {
+              type: "tool-result",
+              toolCallId: "call-1",
+              toolName: "get_weather",
+              result: { temperature: 21 },
+            },
+            {
+              type: "tool-result",
+              toolCallId: "call-2",
+              toolName: "get_weather",
+              result: "Service unavailable",
+              isError: true,
+            },
+          ],
+        },
+      ],
+    });
+    await convertReadableStreamToArray(result.stream);
+
+    expect((await server.calls[0].requestBody).messages).toStrictEqual([
+      { role: "user", content: "Hello" },
+      {
+        role: "assistant",
+        content: "",
+        tool_calls: [
+          {
+            id: "call-1",
+            type: "function",
+            function: {
+              name: "get_weather",
+              arguments: '{"location":"Paris"}',
+            },
+          },
+          {
+            id: "call-2",
+            type: "function",
+            function: {
+              name: "get_weather",
+              arguments: '{"location":"Rome"}',
+            },
+          },
+        ],
+      },
+      { role: "tool", content: '{"temperature":21}', tool_call_id: "call-1" },
+      {
+        role: "tool",
+        content: 'Error: "Service unavailable"',
+        tool_call_id: "call-2",
+      },
+    ]);
+  });
+});
+
+describe("tool call validation", () => {
+  const model = provider.chat("inflection_3_with_tools", {
+    endpoint: "native",
+  });
+
+  const prepareToolCallResponse = (args: string) => {
+    server.urls[INFERENCE_URL].response = {
+      type: "json-value",
+      body: {
+        created: 1714688002.0557644,
+        text: "",
+        tool_calls: [
+          {
+            id: "call_123",
+            type: "function",
+            function: { name: "get_weather", arguments: args },
+          },
+        ],
+      },
+    };
+  };
+
+  it("should reject generated tool calls that do not match the schema", async () => {
+    prepareToolCallResponse('{"city": "Paris"}');
+
+    await expect(
+      model.doGenerate({
+        inputFormat: "prompt",
+        mode: { type: "regular", tools: [TEST_TOOL] },
+        prompt: TEST_PROMPT,
+      })
+    ).rejects.toSatisfy(
+      (error) =>
+        InvalidToolArgumentsError.isInstance(error) &&
+        error.toolName === "get_weather" &&
+        error.message.includes("location is required")
+    );
+  });
+
+  it("should repair generated tool calls", async () => {
+    prepareToolCallResponse("{'location': 'Paris'}");
+
+    const result = await provider
+      .chat("inflection_3_with_tools", {
+        endpoint: "native",
+        repairToolCall: ({ toolCall }) => ({
+          args: toolCall.args.replace(/'/g, '"'),
+        }),
+      })
+      .doGenerate({
+        inputFormat: "prompt",
+        mode: { type: "regular", tools: [TEST_TOOL] },
+        prompt: TEST_PROMPT,
+      });
+
+    expect(result.toolCalls?.[0].args).toBe('{"location": "Paris"}');
+  });
+
+  it("should emit invalid streamed tool calls as InvalidToolArgumentsError", async () => {
+    server.urls[STREAMING_URL].response = {
+      type: "stream-chunks",
+      chunks: [
+        `data: ${JSON.stringify({
+          created: 1728094708,
+          idx: 0,
+          tool_calls: [
+            {
+              id: "call_123",
+              type: "function",
+              function: { name: "get_weather", arguments: '{"location": 1}' },
+            },
+          ],
+        })}\n\n`,
+      ],
+    };
+
+    const result = await model.doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular", tools: [TEST_TOOL] },
+      prompt: TEST_PROMPT,
+    });
+    const parts = await convertReadableStreamToArray(result.stream);
+
+    expect(parts.find((part) => part.type === "tool-call")).toBeUndefined();
+    expect(
+      parts.filter((part) => part.type === "error").map((part) => part.error)
+    ).toStrictEqual([expect.any(InvalidToolArgumentsError)]);
+  });
+});
+
+describe("tool schema normalization", () => {
+  const ROUTE_TOOL = {
+    type: "function" as const,
+    name: "plan_route",
+    description: "Plan a route between two places",
+    parameters: {
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        from: { $ref: "#/definitions/place" },
+        to: { $ref: "#/definitions/place" },
+        mode: { type: "string", not: { const: "teleport" } },
+      },
+      required: ["from", "to"],
+      additionalProperties: false,
+      definitions: {
+        place: {
+          type: "object",
+          properties: { city: { type: "string" } },
+          required: ["city"],
+        },
+      },
+    },
+  };
+
+  const NORMALIZED_PARAMETERS = {
+    type: "object",
+    properties: {
+      from: {
+        type: "object",
+        properties: { city: { type: "string" } },
+        required: ["city"],
+      },
+      to: {
+        type: "object",
+        properties: { city: { type: "string" } },
+        required: ["city"],
+      },
+      mode: { type: "string" },
+    },
+    required: ["from", "to"],
+    additionalProperties: false,
+  };
+
+  it("should send normalized parameters to the native endpoint and warn about removed keywords", async () => {
+    const result = await provider
+      .chat("inflection_3_with_tools", { endpoint: "native" })
+      .doGenerate({
+        inputFormat: "prompt",
+        mode: { type: "regular", tools: [ROUTE_TOOL] },
+        prompt: TEST_PROMPT,
+      });
+
+    expect((await server.calls[0].requestBody).tools).toStrictEqual([
+      {
+        type: "function",
+        function: {
+          name: "plan_route",
+          description: "Plan a route between two places",
+          parameters: NORMALIZED_PARAMETERS,
+        },
+      },
+    ]);
+    expect(result.warnings).toStrictEqual([
+      {
+        type: "other",
+        message:
+          "Removed unsupported JSON schema keywords from the parameters of tool plan_route: properties.mode.not",
+      },
+    ]);
+  });
+
+  it("should send normalized parameters to the OpenAI-compatible endpoint", async () => {
+    const result = await provider.chat("inflection_3_with_tools").doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular", tools: [ROUTE_TOOL] },
+      prompt: TEST_PROMPT,
+    });
+    await convertReadableStreamToArray(result.stream);
+
+    expect(server.calls[0].requestUrl).toBe(OPENAI_STREAMING_URL);
+    expect(
+      (await server.calls[0].requestBody).tools[0].function.parameters
+    ).toStrictEqual(NORMALIZED_PARAMETERS);
+    expect(result.warnings).toHaveLength(1);
+  });
+});
+
+describe("web search", () => {
+  const webSearchTool = {
+    ...provider.tools.webSearch(),
+    name: "webSearch",
+  };
+
+  const CITED_TEXT =
+    'Webb launched in 2021 [1].\n\n[1]: https://webb.nasa.gov "Webb"';
+
+  const SOURCES = [
+    {
+      sourceType: "url",
+      id: "1",
+      url: "https://webb.nasa.gov",
+      title: "Webb",
+    },
+  ];
+
+  it("should enable web search for calls with the web search tool", async () => {
+    const result = await provider
+      .chat("inflection_3_pi", { web_search: false })
+      .doGenerate({
+        inputFormat: "prompt",
+        mode: { type: "regular", tools: [webSearchTool] },
+        prompt: TEST_PROMPT,
+      });
+
+    const requestBody = await server.calls[0].requestBody;
+    expect(requestBody.web_search).toBe(true);
+    expect(requestBody).not.toHaveProperty("tools");
+    expect(result.warnings).toStrictEqual([]);
+  });
+
+  it("should send web search with function tools to the OpenAI-compatible endpoint", async () => {
+    const result = await provider.chat("inflection_3_with_tools").doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular", tools: [TEST_TOOL, webSearchTool] },
+      prompt: TEST_PROMPT,
+    });
+    await convertReadableStreamToArray(result.stream);
+
+    expect(server.calls[0].requestUrl).toBe(OPENAI_STREAMING_URL);
+    expect(await server.calls[0].requestBody).toMatchObject({
+      web_search: true,
+      tools: [{ type: "function", function: { name: "get_weather" } }],
+    });
+  });
+
+  it("should not enable web search when the tool choice is none", async () => {
+    await provider.chat("inflection_3_pi").doGenerate({
+      inputFormat: "prompt",
+      mode: {
+        type: "regular",
+        tools: [webSearchTool],
+        toolChoice: { type: "none" },
+      },
+      prompt: TEST_PROMPT,
+    });
+
+    expect(await server.calls[0].requestBody).not.toHaveProperty("web_search");
+  });
+
+  it("should return the cited sources when generating", async () => {
+    server.urls[INFERENCE_URL].response = {
+      type: "json-value",
+      body: { created: 1714688002.0557644, text: CITED_TEXT },
+    };
+
+    const result = await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular", tools: [webSearchTool] },
+      prompt: TEST_PROMPT,
+    });
+
+    expect(result.sources).toStrictEqual(SOURCES);
+    expect(result.providerMetadata?.inflection.sources).toStrictEqual(SOURCES);
+  });
+
+  it("should emit the cited sources as source parts when streaming", async () => {
+    server.urls[STREAMING_URL].response = {
+      type: "stream-chunks",
+      chunks: [
+        `data: ${JSON.stringify({ created: 1728094708, idx: 0, text: CITED_TEXT.slice(0, 30) })}\n\n`,
+        `data: ${JSON.stringify({ created: 1728094709, idx: 1, text: CITED_TEXT.slice(30) })}\n\n`,
+      ],
+    };
+
+    const { stream } = await model.doStream({
+      inputFormat: "prompt",
+      mode: { type: "regular", tools: [webSearchTool] },
+      prompt: TEST_PROMPT,
+    });
+    const parts = await convertReadableStreamToArray(stream);
+
+    expect(parts.slice(-2)).toMatchObject([
+      { type: "source", source: SOURCES[0] },
+      { type: "finish" },
+    ]);
+  });
+
+  it("should not extract sources without the web search tool", async () => {
+    server.urls[INFERENCE_URL].response = {
+      type: "json-value",
+      body: { created: 1714688002.0557644, text: CITED_TEXT },
+    };
+
+    const result = await provider
+      .chat("inflection_3_pi", { web_search: true })
+      .doGenerate({
+        inputFormat: "prompt",
+        mode: { type: "regular" },
+        prompt: TEST_PROMPT,
+      });
+
+    expect(result.sources).toBeUndefined();
+    expect(result.providerMetadata?.inflection).not.toHaveProperty("sources");
+  });
+
+  it("should not report sources for responses without links", async () => {
+    const result = await model.doGenerate({
+      inputFormat: "prompt",
+      mode: { type: "regular", tools: [webSearchTool] },
+      prompt: TEST_PROMPT,
+    });
+
+    expect(result.sources).toBeUndefined();
+    expect(result.providerMetadata?.inflection).not.toHaveProperty("sources");
+  });
 });
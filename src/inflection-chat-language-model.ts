@@ -1,22 +1,35 @@
 import {
+  APICallError,
   LanguageModelV1,
+  LanguageModelV1CallOptions,
   LanguageModelV1CallWarning,
   LanguageModelV1FinishReason,
   LanguageModelV1StreamPart,
   LanguageModelV1FunctionTool,
   LanguageModelV1FunctionToolCall,
+  LanguageModelV1Prompt,
   UnsupportedFunctionalityError,
 } from "@ai-sdk/provider";
 import {
   FetchFunction,
-  ParseResult,
+  ResponseHandler,
   combineHeaders,
   createEventSourceResponseHandler,
   createJsonResponseHandler,
   postJsonToApi,
 } from "@ai-sdk/provider-utils";
 import { z } from "zod";
-import { convertToInflectionChatMessages } from "./convert-to-inflection-chat-messages";
+import {
+  InflectionContext,
+  InflectionMessage,
+  convertToInflectionChatMessages,
+} from "./convert-to-inflection-chat-messages";
+import { fitInflectionContext } from "./fit-inflection-context";
+import {
+  InflectionMemoryStore,
+  createSummaryContext,
+  summarizeInflectionContext,
+} from "./summarize-inflection-context";
 import {
   InflectionChatModelId,
   InflectionChatSettings,
@@ -24,28 +37,83 @@ import {
 } from "./inflection-chat-settings";
 import { inflectionFailedResponseHandler } from "./inflection-error";
 import { getResponseMetadata } from "./get-response-metadata";
+import { mapInflectionFinishReason } from "./map-inflection-finish-reason";
+import { prepareTools } from "./inflection-prepare-tools";
+import { extractInflectionSources } from "./extract-inflection-sources";
+import {
+  InflectionRetrySettings,
+  retryWithExponentialBackoff,
+} from "./retry-with-exponential-backoff";
+import { RequestLimiter, releaseOnClose } from "./request-limiter";
+import { ApiKeyPool } from "./api-key-pool";
+import { BaseURLCircuitBreaker } from "./base-url-circuit-breaker";
+import {
+  InflectionTimeoutSettings,
+  createRequestTimeout,
+} from "./request-timeouts";
+import {
+  InflectionModelCapabilities,
+  InflectionModelRegistry,
+} from "./inflection-model-capabilities";
+import {
+  InflectionTokenizer,
+  approximateInflectionTokenizer,
+  countInflectionRequestTokens,
+} from "./inflection-tokenizer";
+import {
+  ToolCallFragment,
+  createToolCallAccumulator,
+} from "./tool-call-accumulator";
+import { createResilientStream } from "./resilient-stream";
+import { parseInflectionToolCall } from "./parse-inflection-tool-call";
+import { createNativeChunkOrderer } from "./native-chunk-orderer";
+import {
+  EmulatedTools,
+  convertToEmulatedToolPrompt,
+  createEmulatedToolCallParser,
+  parseEmulatedToolCalls,
+} from "./emulate-inflection-tools";
+import {
+  InflectionModelPrice,
+  InflectionUsageEvent,
+  computeInflectionCost,
+} from "./inflection-usage";
 
 type InflectionChatConfig = {
   provider: string;
-  baseURL: string;
-  headers: () => Record<string, string | undefined>;
+  baseURLs: string[];
+  baseURLCircuitBreaker: BaseURLCircuitBreaker;
+  headers: (
+    apiKey: string,
+    options: { forceRefresh: boolean }
+  ) => PromiseLike<Record<string, string | undefined>>;
+  apiKeys: (options: { forceRefresh: boolean }) => PromiseLike<string[]>;
+  apiKeyPool: ApiKeyPool;
+  refreshCredentialsOnUnauthorized: boolean;
+  modelRegistry: InflectionModelRegistry;
+  tokenizer?: InflectionTokenizer;
+  memoryStore: InflectionMemoryStore;
+  onUsage?: (event: InflectionUsageEvent) => void | PromiseLike<void>;
+  prices?: Record<string, InflectionModelPrice>;
   fetch?: FetchFunction;
+  retry?: InflectionRetrySettings;
+  limiter?: RequestLimiter;
+  timeouts?: InflectionTimeoutSettings;
 };
 
-// Custom type for tool call stream part that includes required fields
-type InflectionToolCallStreamPart = {
-  type: "tool-call";
-  created: number;
-  idx: number;
-  text: string;
-} & LanguageModelV1FunctionToolCall;
-
 export class InflectionChatLanguageModel implements LanguageModelV1 {
   readonly specificationVersion = "v1";
   readonly defaultObjectGenerationMode = "json";
   readonly supportsImageUrls = false;
 
   readonly modelId: InflectionChatModelId;
+
+  /**
+   * Effective settings of the model: the provider `defaultSettings`
+   * deep-merged with the settings passed when creating the model.
+   * Call options (`maxTokens`, `temperature`, `topP`, `stopSequences`)
+   * take precedence over them on each call.
+   */
   readonly settings: InflectionChatSettings;
 
   private readonly config: InflectionChatConfig;
@@ -64,115 +132,611 @@ export class InflectionChatLanguageModel implements LanguageModelV1 {
     return this.config.provider;
   }
 
-  private getArgs({
-    mode,
-    prompt,
-    maxTokens,
-    temperature,
-    topP,
-    stopSequences,
-    seed,
-  }: Parameters<LanguageModelV1["doGenerate"]>[0]) {
+  /**
+   * Capabilities of the model from the provider's model registry.
+   */
+  get capabilities(): InflectionModelCapabilities {
+    return this.config.modelRegistry.get(this.modelId);
+  }
+
+  /**
+   * Timeouts of this model, falling back to the provider timeouts.
+   */
+  private get timeouts(): InflectionTimeoutSettings {
+    return {
+      timeoutMs: this.settings.timeoutMs ?? this.config.timeouts?.timeoutMs,
+      firstChunkTimeoutMs:
+        this.settings.firstChunkTimeoutMs ??
+        this.config.timeouts?.firstChunkTimeoutMs,
+      chunkIdleTimeoutMs:
+        this.settings.chunkIdleTimeoutMs ??
+        this.config.timeouts?.chunkIdleTimeoutMs,
+    };
+  }
+
+  private getArgs(
+    {
+      mode,
+      prompt,
+      maxTokens,
+      temperature,
+      topP,
+      stopSequences,
+      seed,
+    }: Parameters<LanguageModelV1["doGenerate"]>[0],
+    convertedContext?: InflectionContext,
+    { fitContext = true }: { fitContext?: boolean } = {}
+  ) {
     const type = mode.type;
     const warnings: LanguageModelV1CallWarning[] = [];
 
-    // Only allow tools with inflection_3_with_tools model
+    // Only allow tools with models that support them or emulate them
     if (
-      type === "regular" &&
-      mode.tools?.length &&
-      this.modelId !== "inflection_3_with_tools"
+      hasFunctionTools(mode) &&
+      !this.capabilities.supportsTools &&
+      !this.settings.emulateTools
     ) {
       throw new UnsupportedFunctionalityError({
-        functionality:
-          "Tool calls are only supported with the inflection_3_with_tools model",
+        functionality: `Tool calls are only supported with the inflection_3_with_tools model and models registered with tool support (model: ${this.modelId})`,
       });
     }
 
-    // Convert tools to Inflection format if present
-    const tools =
-      type === "regular" && mode.tools?.length
-        ? mode.tools
-            .filter(
-              (tool): tool is LanguageModelV1FunctionTool =>
-                tool.type === "function"
-            )
-            .map(
-              (tool): InflectionTool => ({
-                type: "function",
-                function: {
-                  name: tool.name,
-                  description: tool.description,
-                  parameters: {
-                    type: "object",
-                    properties: tool.parameters.properties,
-                    required: tool.parameters.required,
-                  },
-                },
-              })
-            )
-        : undefined;
+    // Convert tools to Inflection format and map the tool choice:
+    const {
+      tools: preparedTools,
+      tool_choice,
+      webSearch,
+      toolWarnings,
+    } = type === "regular"
+      ? prepareTools(mode)
+      : {
+          tools: undefined,
+          tool_choice: undefined,
+          webSearch: false,
+          toolWarnings: [],
+        };
+    warnings.push(...toolWarnings);
+
+    // emulated tools are described in an instruction instead:
+    const tools: InflectionTool[] | undefined = this.emulatesTools
+      ? undefined
+      : preparedTools;
+
+    const max_tokens =
+      maxTokens ??
+      this.settings.max_tokens ??
+      this.capabilities.defaultMaxTokens;
+
+    let context = convertedContext ?? this.convertPrompt(prompt, mode);
+
+    const contextStrategy = this.settings.contextStrategy;
+    if (contextStrategy != null && fitContext) {
+      const fitted = fitInflectionContext(context, {
+        type: contextStrategy.type,
+        maxPromptTokens:
+          contextStrategy.maxPromptTokens ??
+          this.capabilities.contextWindow - max_tokens,
+        reservedTokens: countInflectionRequestTokens(this.tokenizer, {
+          context: [],
+          tools,
+          metadata: this.settings.metadata,
+        }),
+        tokenizer: this.tokenizer,
+      });
+
+      if (fitted.droppedMessages > 0 || fitted.truncatedMessages > 0) {
+        warnings.push({
+          type: "other",
+          message: `Trimmed ${fitted.droppedMessages + fitted.truncatedMessages} messages to fit the context window (${fitted.droppedMessages} dropped, ${fitted.truncatedMessages} truncated).`,
+        });
+      }
+
+      context = fitted.context;
+    }
 
     const baseArgs = {
       // config instead of model:
       config: this.modelId,
 
       // standardized settings:
-      max_tokens: maxTokens,
-      temperature,
-      top_p: topP,
-      stop_tokens: stopSequences,
-      web_search: this.settings.web_search,
+      max_tokens,
+      temperature: temperature ?? this.settings.temperature,
+      top_p: topP ?? this.settings.top_p,
+      stop_tokens: stopSequences ?? this.settings.stop_tokens,
+      // the web search tool enables web search for the call:
+      web_search: webSearch ? true : this.settings.web_search,
 
       // metadata if provided:
       metadata: this.settings.metadata,
 
       // context (messages):
-      context: convertToInflectionChatMessages(prompt, this.modelId),
+      context,
 
       // tools if present:
       tools,
+      tool_choice: tools != null ? tool_choice : undefined,
     };
 
-    return { args: baseArgs, warnings };
+    return { args: baseArgs, warnings, webSearch };
+  }
+
+  /**
+   * Converts the prompt and applies the memory settings, summarizing older
+   * turns before the context strategy is applied.
+   */
+  private async prepareArgs(
+    options: Parameters<LanguageModelV1["doGenerate"]>[0]
+  ) {
+    const memory = this.settings.memory;
+    if (memory == null) {
+      return this.getArgs(options);
+    }
+
+    const context = this.convertPrompt(options.prompt, options.mode);
+
+    const conversationId = options.providerMetadata?.inflection?.conversationId;
+
+    return this.getArgs(
+      options,
+      await summarizeInflectionContext(context, {
+        maxMessages: memory.maxMessages,
+        keepRecentMessages: memory.keepRecentMessages,
+        conversationId:
+          typeof conversationId === "string" ? conversationId : undefined,
+        store: this.config.memoryStore,
+        summarize: async (messages, previousSummary) => {
+          const startTime = Date.now();
+          const modelId = memory.modelId ?? this.modelId;
+          const summaryContext = createSummaryContext(
+            messages,
+            previousSummary
+          );
+
+          const { value: response } = await this.sendRequest({
+            path: "",
+            headers: options.headers,
+            body: {
+              config: modelId,
+              max_tokens: memory.maxSummaryTokens ?? 512,
+              context: summaryContext,
+            },
+            successfulResponseHandler: createJsonResponseHandler(
+              inflectionChatResponseSchema
+            ),
+            abortSignal: options.abortSignal,
+          });
+
+          // summarization requests are billed like any other call:
+          this.reportUsage({
+            modelId,
+            type: "summary",
+            usage: {
+              promptTokens: countInflectionRequestTokens(this.tokenizer, {
+                context: summaryContext,
+              }),
+              completionTokens: this.tokenizer.countTokens(response.text),
+            },
+            startTime,
+            providerMetadata: options.providerMetadata,
+          });
+
+          return response.text;
+        },
+      })
+    );
+  }
+
+  /**
+   * Whether tools are emulated with prompt instructions because the model
+   * has no native tool support.
+   */
+  private get emulatesTools(): boolean {
+    return (
+      this.settings.emulateTools === true && !this.capabilities.supportsTools
+    );
+  }
+
+  /**
+   * The tools that are described in the tool instruction of the call, or
+   * undefined when the call has no emulated tools.
+   */
+  private getEmulatedTools(
+    mode: LanguageModelV1CallOptions["mode"]
+  ): EmulatedTools | undefined {
+    if (!this.emulatesTools || mode.type !== "regular") {
+      return undefined;
+    }
+
+    const { tools, tool_choice } = prepareTools(mode);
+    if (!tools?.length || tool_choice === "none") {
+      return undefined;
+    }
+
+    return {
+      tools: tools.map((tool) => tool.function),
+      required: tool_choice === "any",
+    };
+  }
+
+  /**
+   * Converts the prompt to the Inflection context. With emulated tools, the
+   * tool instruction is added and tool calls and results are written as text.
+   */
+  private convertPrompt(
+    prompt: LanguageModelV1Prompt,
+    mode: LanguageModelV1CallOptions["mode"]
+  ): InflectionContext {
+    return convertToInflectionChatMessages(
+      this.emulatesTools
+        ? convertToEmulatedToolPrompt(prompt, this.getEmulatedTools(mode))
+        : prompt,
+      this.modelId,
+      this.capabilities
+    );
+  }
+
+  /**
+   * Parses the arguments of a generated tool call and validates them against
+   * the JSON schema of the tool, repairing them with `repairToolCall`.
+   */
+  private parseToolCall(
+    toolCall: LanguageModelV1FunctionToolCall,
+    mode: LanguageModelV1CallOptions["mode"]
+  ): Promise<LanguageModelV1FunctionToolCall> {
+    return parseInflectionToolCall({
+      toolCall,
+      tools:
+        mode.type === "regular"
+          ? mode.tools?.filter(
+              (tool): tool is LanguageModelV1FunctionTool =>
+                tool.type === "function"
+            )
+          : undefined,
+      repairToolCall: this.settings.repairToolCall,
+    });
+  }
+
+  /**
+   * Whether the call is sent to the OpenAI-compatible endpoint. With the
+   * default `auto` setting, models served by that endpoint use it for calls
+   * with tools, so that generate and stream calls take the same path.
+   */
+  private useOpenAIEndpoint(mode: LanguageModelV1CallOptions["mode"]) {
+    const endpoint = this.settings.endpoint ?? "auto";
+
+    return endpoint === "auto"
+      ? this.capabilities.endpoint === "openai" && hasFunctionTools(mode)
+      : endpoint === "openai";
+  }
+
+  /**
+   * Maps the native request body to the OpenAI-compatible endpoint.
+   */
+  private getOpenAIArgs(args: ReturnType<typeof this.getArgs>["args"]) {
+    return {
+      model: args.config,
+      messages: convertToOpenAIChatMessages(args.context),
+      max_tokens: args.max_tokens,
+      temperature: args.temperature,
+      top_p: args.top_p,
+      stop: args.stop_tokens,
+      web_search: args.web_search,
+      metadata: args.metadata,
+      // tools are undefined when they are emulated:
+      tools: args.tools,
+      // the OpenAI-compatible endpoint expects "required" instead of "any":
+      tool_choice:
+        args.tool_choice === "any" ? ("required" as const) : args.tool_choice,
+    };
+  }
+
+  private get tokenizer(): InflectionTokenizer {
+    return this.config.tokenizer ?? approximateInflectionTokenizer;
+  }
+
+  private countArgsTokens(args: ReturnType<typeof this.getArgs>["args"]) {
+    return countInflectionRequestTokens(this.tokenizer, {
+      context: args.context,
+      tools: args.tools,
+      metadata: args.metadata,
+    });
+  }
+
+  /**
+   * Estimates the prompt tokens of a call: the converted prompt including
+   * instructions, the tool definitions of the mode, and the user metadata.
+   * Uses the provider tokenizer (an offline approximation by default).
+   *
+   * The full prompt is counted, before `contextStrategy` trims it and before
+   * `memory` summarizes older turns, so that the count can be compared to the
+   * context window when budgeting a call.
+   */
+  countTokens(
+    prompt: LanguageModelV1Prompt,
+    mode: LanguageModelV1CallOptions["mode"] = { type: "regular" }
+  ): number {
+    const { args } = this.getArgs(
+      { inputFormat: "prompt", mode, prompt },
+      undefined,
+      { fitContext: false }
+    );
+    return this.countArgsTokens(args);
+  }
+
+  /**
+   * Posts the body to the API, retrying failed attempts according to the
+   * provider retry settings. Every attempt goes through the provider's
+   * request limiter, fails over to the next base URL when an endpoint is
+   * unreachable or returns a 5xx, and fails over to the next API key when a
+   * key is rejected or throttled.
+   */
+  private async sendRequest<T>({
+    path,
+    headers,
+    body,
+    successfulResponseHandler,
+    abortSignal,
+  }: {
+    path: string;
+    headers: Record<string, string | undefined> | undefined;
+    body: unknown;
+    successfulResponseHandler: ResponseHandler<T>;
+    abortSignal: AbortSignal | undefined;
+  }) {
+    const { value, attempts } = await retryWithExponentialBackoff(
+      async () => {
+        const release = await this.config.limiter?.acquire({ abortSignal });
+        const timeout = createRequestTimeout({
+          ...this.timeouts,
+          abortSignal,
+        });
+
+        try {
+          const result = await this.postWithBaseURLFailover((baseURL) =>
+            this.postWithCredentials((credentialHeaders) =>
+              postJsonToApi({
+                url: `${baseURL}${path}`,
+                headers: combineHeaders(credentialHeaders, headers),
+                body,
+                failedResponseHandler: inflectionFailedResponseHandler,
+                successfulResponseHandler,
+                abortSignal: timeout.signal,
+                fetch: this.config.fetch,
+              })
+            )
+          );
+
+          // streaming responses switch to the stream timeouts and hold their
+          // limiter slot until the stream is closed:
+          if (result.value instanceof ReadableStream) {
+            const stream = timeout.watchStream(result.value);
+            return {
+              ...result,
+              value: (release != null
+                ? releaseOnClose(stream, release)
+                : stream) as T,
+            };
+          }
+
+          timeout.dispose();
+          release?.();
+          return result;
+        } catch (error) {
+          timeout.dispose();
+          release?.();
+          throw timeout.getTimeoutError() ?? error;
+        }
+      },
+      { ...this.config.retry, abortSignal }
+    );
+
+    return { ...value, attempts };
+  }
+
+  private async postWithBaseURLFailover<T>(
+    post: (baseURL: string) => Promise<T>
+  ): Promise<T & { baseURL: string }> {
+    const baseURLs = this.config.baseURLs;
+    const breaker = this.config.baseURLCircuitBreaker;
+    const triedBaseURLs = new Set<string>();
+    let lastError: unknown;
+
+    for (;;) {
+      const baseURL = breaker.select(baseURLs, triedBaseURLs);
+      if (baseURL == null) {
+        throw lastError;
+      }
+
+      triedBaseURLs.add(baseURL);
+
+      try {
+        const result = await post(baseURL);
+        breaker.reportSuccess(baseURL);
+        return { ...result, baseURL };
+      } catch (error) {
+        if (!breaker.reportError(baseURL, error)) {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+  }
+
+  private async postWithCredentials<T>(
+    post: (headers: Record<string, string | undefined>) => Promise<T>
+  ): Promise<T> {
+    try {
+      return await this.postWithKeyFailover(post, { forceRefresh: false });
+    } catch (error) {
+      // resolved credentials may have expired early, refresh them once:
+      if (
+        !this.config.refreshCredentialsOnUnauthorized ||
+        !APICallError.isInstance(error) ||
+        error.statusCode !== 401
+      ) {
+        throw error;
+      }
+
+      return this.postWithKeyFailover(post, { forceRefresh: true });
+    }
+  }
+
+  private async postWithKeyFailover<T>(
+    post: (headers: Record<string, string | undefined>) => Promise<T>,
+    { forceRefresh }: { forceRefresh: boolean }
+  ): Promise<T> {
+    const keys = await this.config.apiKeys({ forceRefresh });
+    const triedKeys = new Set<string>();
+    let lastError: unknown;
+
+    for (;;) {
+      const apiKey = this.config.apiKeyPool.select(keys, triedKeys);
+      if (apiKey == null) {
+        throw lastError;
+      }
+
+      triedKeys.add(apiKey);
+
+      try {
+        return await post(
+          await this.config.headers(apiKey, { forceRefresh })
+        );
+      } catch (error) {
+        if (!this.config.apiKeyPool.reportError(apiKey, error)) {
+          throw error;
+        }
+        lastError = error;
+      }
+    }
+  }
+
+  /**
+   * Reports the usage of a completed call to the provider `onUsage` callback.
+   * Errors of the callback are ignored so that they never fail the call.
+   */
+  private reportUsage({
+    modelId = this.modelId,
+    type,
+    usage,
+    startTime,
+    providerMetadata,
+  }: {
+    modelId?: InflectionChatModelId;
+    type: InflectionUsageEvent["type"];
+    usage: { promptTokens: number; completionTokens: number };
+    startTime: number;
+    providerMetadata: LanguageModelV1CallOptions["providerMetadata"];
+  }) {
+    const onUsage = this.config.onUsage;
+    if (onUsage == null) {
+      return;
+    }
+
+    const tags = providerMetadata?.inflection?.tags;
+    const price = this.config.prices?.[modelId];
+
+    try {
+      Promise.resolve(
+        onUsage({
+          modelId,
+          type,
+          ...usage,
+          // the API does not report usage:
+          estimated: true,
+          latencyMs: Date.now() - startTime,
+          tags: Array.isArray(tags)
+            ? tags.filter((tag): tag is string => typeof tag === "string")
+            : [],
+          cost: price != null ? computeInflectionCost(price, usage) : undefined,
+        })
+      ).then(undefined, () => {});
+    } catch {
+      // ignore synchronous callback errors
+    }
   }
 
   async doGenerate(
     options: Parameters<LanguageModelV1["doGenerate"]>[0]
   ): Promise<Awaited<ReturnType<LanguageModelV1["doGenerate"]>>> {
-    const { args, warnings } = this.getArgs(options);
-
-    const { responseHeaders, value: response } = await postJsonToApi({
-      url: this.config.baseURL,
-      headers: combineHeaders(this.config.headers(), options.headers),
-      body: args,
-      failedResponseHandler: inflectionFailedResponseHandler,
-      successfulResponseHandler: createJsonResponseHandler(
-        inflectionChatResponseSchema
-      ),
+    const startTime = Date.now();
+    const { args, warnings, webSearch } = await this.prepareArgs(options);
+    const useOpenAIEndpoint = this.useOpenAIEndpoint(options.mode);
+    const body = useOpenAIEndpoint
+      ? this.getOpenAIArgs(args)
+      : args;
+
+    const {
+      responseHeaders,
+      value: response,
+      attempts,
+      baseURL,
+    } = await this.sendRequest<InflectionChatResponse>({
+      path: useOpenAIEndpoint ? OPENAI_CHAT_COMPLETIONS_PATH : "",
+      headers: options.headers,
+      body,
+      successfulResponseHandler: useOpenAIEndpoint
+        ? openAIChatResponseHandler
+        : createJsonResponseHandler(inflectionChatResponseSchema),
       abortSignal: options.abortSignal,
-      fetch: this.config.fetch,
     });
 
     const { context: rawPrompt, ...rawSettings } = args;
 
     // Estimate token counts since API doesn't provide them
-    const promptText = rawPrompt.map((m) => m.text).join("");
-    const promptTokens = Math.ceil(promptText.length / 4);
-    const completionTokens = Math.ceil(response.text.length / 4);
+    const promptTokens = this.countArgsTokens(args);
+    const completionTokens =
+      this.tokenizer.countTokens(response.text) +
+      (response.tool_calls ?? []).reduce(
+        (sum, call) => sum + this.tokenizer.countTokens(call.function.arguments),
+        0
+      );
+
+    this.reportUsage({
+      type: "generate",
+      usage: { promptTokens, completionTokens },
+      startTime,
+      providerMetadata: options.providerMetadata,
+    });
 
     // Convert tool calls to the expected format
-    const toolCalls = response.tool_calls?.map(
-      (call): LanguageModelV1FunctionToolCall => ({
-        toolCallType: "function",
-        toolCallId: call.id,
-        toolName: call.function.name,
-        args: JSON.parse(call.function.arguments),
-      })
-    );
+    const emulatedToolCalls =
+      this.getEmulatedTools(options.mode) != null
+        ? parseEmulatedToolCalls(response.text)
+        : undefined;
+    const rawToolCalls =
+      emulatedToolCalls ??
+      response.tool_calls?.map(
+        (call): LanguageModelV1FunctionToolCall => ({
+          toolCallType: "function",
+          toolCallId: call.id,
+          toolName: call.function.name,
+          args: call.function.arguments,
+        })
+      );
+    const toolCalls =
+      rawToolCalls == null
+        ? undefined
+        : await Promise.all(
+            rawToolCalls.map((toolCall) =>
+              this.parseToolCall(toolCall, options.mode)
+            )
+          );
+
+    const text = emulatedToolCalls != null ? "" : response.text;
+    // only responses of calls with the web search tool cite sources:
+    const sources = webSearch ? extractInflectionSources(text) : [];
 
     return {
-      text: response.text,
-      finishReason: response.tool_calls?.length ? "tool-calls" : "stop",
+      text,
+      // the native endpoint does not report a finish reason, and the
+      // reported one does not know about emulated tool calls:
+      finishReason: emulatedToolCalls?.length
+        ? "tool-calls"
+        : response.finish_reason != null
+          ? mapInflectionFinishReason(response.finish_reason)
+          : toolCalls?.length
+            ? "tool-calls"
+            : "stop",
       usage: {
         promptTokens,
         completionTokens,
@@ -180,8 +744,16 @@ export class InflectionChatLanguageModel implements LanguageModelV1 {
       toolCalls,
       rawCall: { rawPrompt, rawSettings },
       rawResponse: { headers: responseHeaders },
-      request: { body: JSON.stringify(args) },
+      request: { body: JSON.stringify(body) },
       response: getResponseMetadata(response),
+      providerMetadata: {
+        inflection: {
+          attempts,
+          baseURL,
+          ...(sources.length > 0 ? { sources } : {}),
+        },
+      },
+      sources: sources.length > 0 ? sources : undefined,
       warnings,
     };
   }
@@ -189,63 +761,162 @@ export class InflectionChatLanguageModel implements LanguageModelV1 {
   async doStream(
     options: Parameters<LanguageModelV1["doStream"]>[0]
   ): Promise<Awaited<ReturnType<LanguageModelV1["doStream"]>>> {
-    const { args, warnings } = this.getArgs(options);
+    const startTime = Date.now();
+    const { args, warnings, webSearch } = await this.prepareArgs(options);
     const { context: rawPrompt, ...rawSettings } = args;
 
-    // Check if we should use the OpenAI API endpoint
-    const useOpenAIEndpoint =
-      this.modelId === "inflection_3_with_tools" &&
-      options.mode.type === "regular" &&
-      (options.mode.tools?.length ?? 0) > 0;
-
-    const url = useOpenAIEndpoint
-      ? `${this.config.baseURL}/openai/v1/chat/completions`
-      : `${this.config.baseURL}/streaming`;
-
+    const useOpenAIEndpoint = this.useOpenAIEndpoint(options.mode);
+    const path = useOpenAIEndpoint
+      ? OPENAI_CHAT_COMPLETIONS_PATH
+      : "/streaming";
     const body = useOpenAIEndpoint
-      ? {
-          model: this.modelId,
-          stream: true,
-          messages: convertPromptToOpenAIMessages(options.prompt),
-          tools:
-            options.mode.type === "regular"
-              ? options.mode.tools
-                  ?.map((tool) => {
-                    if (tool.type !== "function") return null;
-                    return {
-                      type: "function" as const,
-                      function: {
-                        name: tool.name,
-                        description: tool.description,
-                        parameters: tool.parameters,
-                      },
-                    };
-                  })
-                  .filter((t): t is NonNullable<typeof t> => t !== null)
-              : undefined,
-        }
+      ? { ...this.getOpenAIArgs(args), stream: true }
       : { ...args, stream: true };
 
-    const { responseHeaders, value: response } = await postJsonToApi({
-      url,
-      headers: combineHeaders(this.config.headers(), options.headers),
+    const {
+      responseHeaders,
+      value: response,
+      attempts,
+      baseURL,
+    } = await this.sendRequest({
+      path,
+      headers: options.headers,
       body,
-      failedResponseHandler: inflectionFailedResponseHandler,
       successfulResponseHandler: createEventSourceResponseHandler(z.unknown()),
       abortSignal: options.abortSignal,
-      fetch: this.config.fetch,
     });
 
-    let finishReason: LanguageModelV1FinishReason = "stop";
-    const promptText = rawPrompt.map((m) => m.text).join("");
-    const promptTokens = Math.ceil(promptText.length / 4);
+    // reconnect dropped native streams, continuing from the received text:
+    const resilientStreaming = this.settings.resilientStreaming;
+    const stream =
+      resilientStreaming != null && !useOpenAIEndpoint
+        ? createResilientStream({
+            stream: response,
+            maxReconnects: resilientStreaming.maxReconnects,
+            reconnect: async (partialText) => {
+              const { value } = await this.sendRequest({
+                path,
+                headers: options.headers,
+                body: {
+                  ...args,
+                  stream: true,
+                  context:
+                    partialText.length > 0
+                      ? [...args.context, { type: "AI", text: partialText }]
+                      : args.context,
+                },
+                successfulResponseHandler: createEventSourceResponseHandler(
+                  z.unknown()
+                ),
+                abortSignal: options.abortSignal,
+              });
+
+              return value;
+            },
+            abortSignal: options.abortSignal,
+          })
+        : response;
+
+    let finishReason: LanguageModelV1FinishReason | undefined;
+    let isFirstChunk = true;
+    const tokenizer = this.tokenizer;
+    const promptTokens = this.countArgsTokens(args);
     let completionTokens = 0;
+    let text = "";
+    const toolCalls = createToolCallAccumulator();
+    const emulatedToolCalls =
+      this.getEmulatedTools(options.mode) != null
+        ? createEmulatedToolCallParser()
+        : undefined;
+
+    const enqueueText = (
+      delta: string,
+      controller: TransformStreamDefaultController<LanguageModelV1StreamPart>
+    ) => {
+      completionTokens += tokenizer.countTokens(delta);
+      text += delta;
+
+      if (emulatedToolCalls != null) {
+        for (const part of emulatedToolCalls.append(delta)) {
+          controller.enqueue(part);
+        }
+        return;
+      }
+
+      controller.enqueue({ type: "text-delta", textDelta: delta });
+    };
+
+    // tool call arguments count as completion tokens, like in doGenerate:
+    const appendToolCallFragment = (fragment: ToolCallFragment) => {
+      completionTokens += tokenizer.countTokens(fragment.arguments ?? "");
+      return toolCalls.append(fragment);
+    };
+
+    // native chunks are emitted in idx order. Gaps are only known while the
+    // stream is consumed, so they are reported on the finish part:
+    const missingChunks: Array<{ fromIdx: number; toIdx: number }> = [];
+    const nativeChunks = createNativeChunkOrderer<InflectionNativeStreamChunk>({
+      onGap: (gap) => missingChunks.push(gap),
+    });
+
+    // tool calls are validated against the tool schemas before they are
+    // emitted. Invalid calls are emitted as InvalidToolArgumentsError parts:
+    const enqueueToolCallParts = async (
+      parts: LanguageModelV1StreamPart[],
+      controller: TransformStreamDefaultController<LanguageModelV1StreamPart>
+    ) => {
+      for (const part of parts) {
+        if (part.type !== "tool-call") {
+          controller.enqueue(part);
+          continue;
+        }
+
+        try {
+          controller.enqueue({
+            type: "tool-call",
+            ...(await this.parseToolCall(part, options.mode)),
+          });
+        } catch (error) {
+          controller.enqueue({ type: "error", error });
+        }
+      }
+    };
+
+    const enqueueNativeChunk = async (
+      value: InflectionNativeStreamChunk,
+      controller: TransformStreamDefaultController<LanguageModelV1StreamPart>
+    ) => {
+      if (value.text) {
+        enqueueText(value.text, controller);
+      }
+
+      for (const call of value.tool_calls ?? []) {
+        await enqueueToolCallParts(
+          appendToolCallFragment({
+            key: call.id,
+            id: call.id,
+            name: call.function.name,
+            arguments: call.function.arguments,
+          }),
+          controller
+        );
+      }
+    };
+
+    const reportUsage = () =>
+      this.reportUsage({
+        type: "stream",
+        usage: { promptTokens, completionTokens },
+        startTime,
+        providerMetadata: options.providerMetadata,
+      });
 
     return {
-      stream: response.pipeThrough(
+      stream: stream.pipeThrough(
         new TransformStream({
-          transform(chunk, controller) {
+          async transform(chunk, controller) {
             if (!chunk.success) {
+              finishReason = "error";
               controller.enqueue({ type: "error", error: chunk.error });
               return;
             }
@@ -253,114 +924,53 @@ export class InflectionChatLanguageModel implements LanguageModelV1 {
             try {
               const value = inflectionStreamChunkSchema.parse(chunk.value);
 
+              if (isFirstChunk) {
+                isFirstChunk = false;
+                controller.enqueue({
+                  type: "response-metadata",
+                  ...getResponseMetadata(value),
+                });
+              }
+
               // Handle OpenAI format
               if (value.object === "chat.completion.chunk") {
                 const choice = value.choices[0];
                 const delta = choice.delta;
 
                 if (delta.content) {
-                  completionTokens += Math.ceil(delta.content.length / 4);
-                  controller.enqueue({
-                    type: "text-delta",
-                    textDelta: delta.content,
-                  });
+                  enqueueText(delta.content, controller);
                 }
 
-                if (delta.tool_calls?.length) {
-                  for (const call of delta.tool_calls) {
-                    try {
-                      // Emit tool-call-delta for the arguments
-                      controller.enqueue({
-                        type: "tool-call-delta",
-                        toolCallType: "function",
-                        toolCallId: call.id,
-                        toolName: call.function.name,
-                        argsTextDelta: call.function.arguments,
-                      });
-
-                      // Try to parse the arguments to see if they're complete
-                      const args = JSON.parse(call.function.arguments);
-                      controller.enqueue({
-                        type: "tool-call",
-                        toolCallType: "function",
-                        toolCallId: call.id,
-                        toolName: call.function.name,
-                        args,
-                      });
-                    } catch (error) {
-                      // If JSON parsing fails, emit an error but don't break the stream
-                      controller.enqueue({
-                        type: "error",
-                        error: new Error(
-                          `Failed to process tool call: ${error instanceof Error ? error.message : "Unknown error"}`
-                        ),
-                      });
-                    }
-                  }
-                  finishReason = "tool-calls";
+                for (const [i, call] of (delta.tool_calls ?? []).entries()) {
+                  await enqueueToolCallParts(
+                    appendToolCallFragment({
+                      key: call.index ?? i,
+                      id: call.id ?? undefined,
+                      name: call.function?.name ?? undefined,
+                      arguments: call.function?.arguments ?? undefined,
+                    }),
+                    controller
+                  );
                 }
 
                 if (choice.finish_reason) {
-                  finishReason =
-                    choice.finish_reason === "tool_calls"
-                      ? "tool-calls"
-                      : choice.finish_reason;
+                  finishReason = mapInflectionFinishReason(
+                    choice.finish_reason
+                  );
+
+                  if (finishReason === "tool-calls") {
+                    await enqueueToolCallParts(toolCalls.flush(), controller);
+                  }
                 }
               }
               // Handle Inflection native format
               else {
-                if (value.text) {
-                  completionTokens += Math.ceil(value.text.length / 4);
-                  controller.enqueue({
-                    type: "text-delta",
-                    textDelta: value.text,
-                  });
-                }
-
-                if (value.tool_calls?.length) {
-                  for (const call of value.tool_calls) {
-                    try {
-                      // Emit tool-call-delta for the arguments
-                      controller.enqueue({
-                        type: "tool-call-delta",
-                        toolCallType: "function",
-                        toolCallId: call.id,
-                        toolName: call.function.name,
-                        argsTextDelta: call.function.arguments,
-                      });
-
-                      // Try to parse the arguments to see if they're complete
-                      const args = JSON.parse(call.function.arguments);
-                      controller.enqueue({
-                        type: "tool-call",
-                        toolCallType: "function",
-                        toolCallId: call.id,
-                        toolName: call.function.name,
-                        args,
-                      });
-                    } catch (error) {
-                      controller.enqueue({
-                        type: "error",
-                        error: new Error(
-                          `Failed to process tool call: ${error instanceof Error ? error.message : "Unknown error"}`
-                        ),
-                      });
-                    }
-                  }
-                  finishReason = "tool-calls";
+                for (const nativeChunk of nativeChunks.push(value)) {
+                  await enqueueNativeChunk(nativeChunk, controller);
                 }
               }
-
-              // Emit finish event at the end of each chunk
-              controller.enqueue({
-                type: "finish",
-                finishReason,
-                usage: {
-                  promptTokens,
-                  completionTokens,
-                },
-              });
             } catch (error) {
+              finishReason = "error";
               controller.enqueue({
                 type: "error",
                 error: new Error(
@@ -369,6 +979,50 @@ export class InflectionChatLanguageModel implements LanguageModelV1 {
               });
             }
           },
+
+          async flush(controller) {
+            for (const nativeChunk of nativeChunks.flush()) {
+              await enqueueNativeChunk(nativeChunk, controller);
+            }
+
+            await enqueueToolCallParts(toolCalls.flush(), controller);
+            await enqueueToolCallParts(
+              emulatedToolCalls?.flush() ?? [],
+              controller
+            );
+
+            // sources are cited at the end of the reply, which is complete
+            // now. Replies with emulated tool calls are not text:
+            if (webSearch && !emulatedToolCalls?.hasToolCalls()) {
+              for (const source of extractInflectionSources(text)) {
+                controller.enqueue({ type: "source", source });
+              }
+            }
+
+            // the native endpoint does not report a finish reason, and the
+            // reported one does not know about emulated tool calls:
+            controller.enqueue({
+              type: "finish",
+              finishReason:
+                finishReason !== "error" && emulatedToolCalls?.hasToolCalls()
+                  ? "tool-calls"
+                  : (finishReason ??
+                    (toolCalls.hasToolCalls() ? "tool-calls" : "stop")),
+              usage: {
+                promptTokens,
+                completionTokens,
+              },
+              providerMetadata: {
+                inflection: {
+                  attempts,
+                  baseURL,
+                  ...(missingChunks.length > 0 ? { missingChunks } : {}),
+                },
+              },
+            });
+
+            reportUsage();
+          },
         })
       ),
       rawCall: { rawPrompt, rawSettings },
@@ -399,6 +1053,51 @@ const inflectionChatResponseSchema = z.object({
     .optional(),
 });
 
+type InflectionChatResponse = z.input<typeof inflectionChatResponseSchema> & {
+  id?: string;
+  model?: string;
+  finish_reason?: string | null;
+};
+
+const OPENAI_CHAT_COMPLETIONS_PATH = "/openai/v1/chat/completions";
+
+const openAIChatResponseSchema = z.object({
+  id: z.string().nullish(),
+  created: z.number(),
+  model: z.string().nullish(),
+  choices: z.array(
+    z.object({
+      message: z.object({
+        content: z.string().nullish(),
+        tool_calls: z.array(inflectionToolCallSchema).nullish(),
+      }),
+      finish_reason: z.string().nullish(),
+    })
+  ),
+});
+
+// maps OpenAI-compatible responses to the native response format:
+const openAIChatResponseHandler: ResponseHandler<
+  InflectionChatResponse
+> = async (options) => {
+  const { value, ...rest } = await createJsonResponseHandler(
+    openAIChatResponseSchema
+  )(options);
+  const choice = value.choices[0];
+
+  return {
+    ...rest,
+    value: {
+      id: value.id ?? undefined,
+      created: value.created,
+      model: value.model ?? undefined,
+      text: choice?.message.content ?? "",
+      tool_calls: choice?.message.tool_calls ?? [],
+      finish_reason: choice?.finish_reason,
+    },
+  };
+};
+
 // Update stream chunk schema to handle both formats
 const inflectionStreamChunkSchema = z.discriminatedUnion("object", [
   // OpenAI format
@@ -415,19 +1114,21 @@ const inflectionStreamChunkSchema = z.discriminatedUnion("object", [
           tool_calls: z
             .array(
               z.object({
-                id: z.string(),
-                type: z.literal("function"),
-                function: z.object({
-                  name: z.string(),
-                  arguments: z.string(),
-                }),
+                index: z.number().optional(),
+                // id, type and name are only sent with the first fragment:
+                id: z.string().nullish(),
+                type: z.literal("function").nullish(),
+                function: z
+                  .object({
+                    name: z.string().nullish(),
+                    arguments: z.string().nullish(),
+                  })
+                  .optional(),
               })
             )
             .optional(),
         }),
-        finish_reason: z
-          .enum(["stop", "length", "content-filter", "tool_calls"])
-          .nullable(),
+        finish_reason: z.string().nullish(),
       })
     ),
   }),
@@ -452,125 +1153,50 @@ const inflectionStreamChunkSchema = z.discriminatedUnion("object", [
   }),
 ]);
 
-type OpenAIStreamChunk = z.infer<typeof openAIStreamChunkSchema>;
 type InflectionStreamChunk = z.infer<typeof inflectionStreamChunkSchema>;
+type InflectionNativeStreamChunk = Exclude<
+  InflectionStreamChunk,
+  { object: "chat.completion.chunk" }
+>;
 
-// Helper function to convert internal prompt to OpenAI messages format
-function convertPromptToOpenAIMessages(
-  prompt: Parameters<LanguageModelV1["doGenerate"]>[0]["prompt"]
-): Array<{
+// Helper function to check whether the call has function tools (provider-defined
+// tools such as web search are sent as settings):
+function hasFunctionTools(mode: LanguageModelV1CallOptions["mode"]) {
+  return (
+    mode.type === "regular" &&
+    (mode.tools ?? []).some((tool) => tool.type === "function")
+  );
+}
+
+// Helper function to convert the Inflection context to OpenAI messages format
+function convertToOpenAIChatMessages(context: InflectionContext): Array<{
   role: "system" | "user" | "assistant" | "tool";
   content: string;
-  tool_calls?: Array<{
-    id: string;
-    type: "function";
-    function: {
-      name: string;
-      arguments: string;
-    };
-  }>;
+  tool_calls?: InflectionMessage["tool_calls"];
   tool_call_id?: string;
 }> {
-  return prompt.map(({ role, content }) => {
-    if (typeof content === "string") {
-      return { role, content };
-    }
-
-    let textContent = "";
-    const toolCalls: Array<{
-      id: string;
-      type: "function";
-      function: {
-        name: string;
-        arguments: string;
-      };
-    }> = [];
-
-    for (const part of content) {
-      switch (part.type) {
-        case "text":
-          textContent += part.text;
-          break;
-        case "tool-call":
-          toolCalls.push({
-            id: part.toolCallId,
-            type: "function",
-            function: {
-              name: part.toolName,
-              arguments: JSON.stringify(part.args),
-            },
-          });
-          break;
-        case "tool-result":
-          textContent = JSON.stringify(part.result);
-          break;
-        default:
-          // Skip other content types as they're not supported
-          break;
-      }
-    }
-
-    const message: {
-      role: typeof role;
-      content: string;
-      tool_calls?: typeof toolCalls;
-      tool_call_id?: string;
-    } = {
-      role,
-      content: textContent,
-    };
-
-    if (toolCalls.length > 0) {
-      message.tool_calls = toolCalls;
-    }
-
-    if (role === "tool") {
-      const toolResult = content.find(
-        (
-          part
-        ): part is {
-          type: "tool-result";
-          toolCallId: string;
-          toolName: string;
-          result: unknown;
-        } => part.type === "tool-result"
-      );
-      if (toolResult) {
-        message.tool_call_id = toolResult.toolCallId;
+  return context.map(({ type, text, tool_calls, tool_call_id }) => {
+    switch (type) {
+      case "Instruction":
+        return { role: "system", content: text };
+      case "Human":
+        return { role: "user", content: text };
+      case "AI":
+        return {
+          role: "assistant",
+          content: text,
+          ...(tool_calls?.length ? { tool_calls } : {}),
+        };
+      case "Tool":
+        return {
+          role: "tool",
+          content: text,
+          ...(tool_call_id ? { tool_call_id } : {}),
+        };
+      default: {
+        const _exhaustiveCheck: never = type;
+        throw new Error(`Unsupported message type: ${_exhaustiveCheck}`);
       }
     }
-
-    return message;
   });
 }
-
-// Schema for OpenAI API streaming responses
-const openAIStreamChunkSchema = z.object({
-  id: z.string(),
-  object: z.literal("chat.completion.chunk"),
-  created: z.number(),
-  model: z.string(),
-  choices: z.array(
-    z.object({
-      index: z.number(),
-      delta: z.object({
-        content: z.string().optional(),
-        tool_calls: z
-          .array(
-            z.object({
-              id: z.string(),
-              type: z.literal("function"),
-              function: z.object({
-                name: z.string(),
-                arguments: z.string(),
-              }),
-            })
-          )
-          .optional(),
-      }),
-      finish_reason: z
-        .enum(["stop", "length", "content-filter", "tool_calls"])
-        .nullable(),
-    })
-  ),
-});
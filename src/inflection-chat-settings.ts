@@ -1,8 +1,16 @@
+import { InflectionContextStrategy } from "./fit-inflection-context";
+import { InflectionMemorySettings } from "./summarize-inflection-context";
+import { InflectionResilientStreamingSettings } from "./resilient-stream";
+import { InflectionRepairToolCallFunction } from "./parse-inflection-tool-call";
+
 // https://developers.inflection.ai/docs
-export type InflectionChatModelId =
+export type InflectionBuiltInChatModelId =
   | "inflection_3_with_tools"
   | "inflection_3_pi"
-  | "inflection_3_productivity"
+  | "inflection_3_productivity";
+
+export type InflectionChatModelId =
+  | InflectionBuiltInChatModelId
   | (string & {});
 
 // Type for function parameters in tools
@@ -10,6 +18,7 @@ export interface InflectionFunctionParameters {
   type: "object";
   properties: Record<string, unknown>;
   required?: string[];
+  additionalProperties?: boolean | Record<string, unknown>;
 }
 
 // Type for function definition in tools
@@ -73,4 +82,69 @@ export interface InflectionChatSettings {
    * List of tools the model can use. Only supported when using the inflection_3_with_tools model.
    */
   tools?: InflectionTool[];
+
+  /**
+   * Opt-in tool calling for models without native tool support. The tools
+   * and a JSON call protocol are described in an instruction, and replies in
+   * that protocol are returned as tool calls. Tool results are sent back as
+   * structured text.
+   */
+  emulateTools?: boolean;
+
+  /**
+   * Called for tool calls whose arguments are not valid JSON or do not match
+   * the JSON schema of the tool. Return the repaired arguments, or null when
+   * the call cannot be repaired. Unrepaired calls fail with an
+   * `InvalidToolArgumentsError`.
+   */
+  repairToolCall?: InflectionRepairToolCallFunction;
+
+  /**
+   * Opt-in context-window fitting for long conversations. When set, the oldest
+   * turns are dropped or truncated so that the prompt fits the token budget,
+   * and a warning reports how many messages were trimmed.
+   */
+  contextStrategy?: InflectionContextStrategy;
+
+  /**
+   * Opt-in rolling summarization. Older turns are summarized into a single
+   * `Instruction` message that is cached per conversation. Pass
+   * `providerMetadata: { inflection: { conversationId } }` to identify the
+   * conversation; otherwise it is identified by its first message.
+   */
+  memory?: InflectionMemorySettings;
+
+  /**
+   * Opt-in resilient streaming for the native endpoint. When the connection
+   * drops mid-answer, the request is re-issued with the partial answer as a
+   * prefix continuation and the stream continues seamlessly. When recovery
+   * fails, the stream errors with an `InflectionStreamInterruptedError`.
+   */
+  resilientStreaming?: InflectionResilientStreamingSettings;
+
+  /**
+   * The API that generate and stream calls are sent to: the native
+   * Inflection API, the OpenAI-compatible endpoint, or `auto` (default),
+   * which uses the OpenAI-compatible endpoint for calls with tools on models
+   * that are served by it.
+   */
+  endpoint?: "native" | "openai" | "auto";
+
+  /**
+   * Maximum duration of a single request attempt in milliseconds. Overrides the
+   * provider `timeoutMs`. Exceeding it throws an `InflectionTimeoutError`.
+   */
+  timeoutMs?: number;
+
+  /**
+   * Maximum wait for the first stream chunk in milliseconds. Overrides the
+   * provider `firstChunkTimeoutMs`.
+   */
+  firstChunkTimeoutMs?: number;
+
+  /**
+   * Maximum wait between two stream chunks in milliseconds. Overrides the
+   * provider `chunkIdleTimeoutMs`.
+   */
+  chunkIdleTimeoutMs?: number;
 }
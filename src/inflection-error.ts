@@ -1,3 +1,4 @@
+import { AISDKError } from "@ai-sdk/provider";
 import { createJsonErrorResponseHandler } from "@ai-sdk/provider-utils";
 import { z } from "zod";
 
@@ -15,3 +16,159 @@ export const inflectionFailedResponseHandler = createJsonErrorResponseHandler({
   errorSchema: inflectionErrorDataSchema,
   errorToMessage: (data) => data.error.message,
 });
+
+const queueTimeoutErrorName = "AI_InflectionQueueTimeoutError";
+const queueTimeoutErrorMarker = `vercel.ai.error.${queueTimeoutErrorName}`;
+const queueTimeoutErrorSymbol = Symbol.for(queueTimeoutErrorMarker);
+
+/**
+ * Thrown when a call waited longer than `rateLimit.queueTimeoutMs` for the
+ * provider's rate limiter or concurrency cap.
+ */
+export class InflectionQueueTimeoutError extends AISDKError {
+  private readonly [queueTimeoutErrorSymbol] = true;
+
+  readonly timeoutMs: number;
+
+  constructor({ timeoutMs }: { timeoutMs: number }) {
+    super({
+      name: queueTimeoutErrorName,
+      message: `Request was queued for more than ${timeoutMs}ms by the rate limiter.`,
+    });
+    this.timeoutMs = timeoutMs;
+  }
+
+  static isInstance(error: unknown): error is InflectionQueueTimeoutError {
+    return AISDKError.hasMarker(error, queueTimeoutErrorMarker);
+  }
+}
+
+const timeoutErrorName = "AI_InflectionTimeoutError";
+const timeoutErrorMarker = `vercel.ai.error.${timeoutErrorName}`;
+const timeoutErrorSymbol = Symbol.for(timeoutErrorMarker);
+
+/**
+ * Thrown when a request or stream exceeds one of the configured timeouts.
+ * Unlike a user abort, it is not an `AbortError`.
+ */
+export class InflectionTimeoutError extends AISDKError {
+  private readonly [timeoutErrorSymbol] = true;
+
+  /**
+   * Which timeout was exceeded: the whole request (`timeoutMs`), the wait for
+   * the first stream chunk (`firstChunkTimeoutMs`) or the wait between two
+   * stream chunks (`chunkIdleTimeoutMs`).
+   */
+  readonly timeoutType: "request" | "first-chunk" | "chunk-idle";
+
+  readonly timeoutMs: number;
+
+  constructor({
+    timeoutType,
+    timeoutMs,
+  }: {
+    timeoutType: InflectionTimeoutError["timeoutType"];
+    timeoutMs: number;
+  }) {
+    super({
+      name: timeoutErrorName,
+      message: {
+        request: `Request timed out after ${timeoutMs}ms.`,
+        "first-chunk": `No stream chunk was received within ${timeoutMs}ms.`,
+        "chunk-idle": `Stream was idle for more than ${timeoutMs}ms.`,
+      }[timeoutType],
+    });
+    this.timeoutType = timeoutType;
+    this.timeoutMs = timeoutMs;
+  }
+
+  static isInstance(error: unknown): error is InflectionTimeoutError {
+    return AISDKError.hasMarker(error, timeoutErrorMarker);
+  }
+}
+
+const streamInterruptedErrorName = "AI_InflectionStreamInterruptedError";
+const streamInterruptedErrorMarker = `vercel.ai.error.${streamInterruptedErrorName}`;
+const streamInterruptedErrorSymbol = Symbol.for(streamInterruptedErrorMarker);
+
+/**
+ * Thrown when resilient streaming could not recover a dropped stream. The text
+ * that was streamed before the final failure is available as `recoveredText`.
+ */
+export class InflectionStreamInterruptedError extends AISDKError {
+  private readonly [streamInterruptedErrorSymbol] = true;
+
+  readonly recoveredText: string;
+
+  readonly reconnects: number;
+
+  constructor({
+    recoveredText,
+    reconnects,
+    cause,
+  }: {
+    recoveredText: string;
+    reconnects: number;
+    cause: unknown;
+  }) {
+    super({
+      name: streamInterruptedErrorName,
+      message: `Stream was interrupted after ${reconnects} reconnect attempt${reconnects === 1 ? "" : "s"}. Recovered ${recoveredText.length} characters of text.`,
+      cause,
+    });
+    this.recoveredText = recoveredText;
+    this.reconnects = reconnects;
+  }
+
+  static isInstance(error: unknown): error is InflectionStreamInterruptedError {
+    return AISDKError.hasMarker(error, streamInterruptedErrorMarker);
+  }
+}
+
+const invalidToolArgumentsErrorName = "AI_InvalidToolArgumentsError";
+const invalidToolArgumentsErrorMarker = `vercel.ai.error.${invalidToolArgumentsErrorName}`;
+const invalidToolArgumentsErrorSymbol = Symbol.for(
+  invalidToolArgumentsErrorMarker,
+);
+
+/**
+ * Thrown when the arguments of a tool call are not valid JSON or do not match
+ * the JSON schema of the tool, and `repairToolCall` could not repair them.
+ */
+export class InvalidToolArgumentsError extends AISDKError {
+  private readonly [invalidToolArgumentsErrorSymbol] = true;
+
+  readonly toolCallId: string;
+
+  readonly toolName: string;
+
+  /** The arguments as generated by the model (or returned by the repair). */
+  readonly toolArgs: string;
+
+  constructor({
+    toolCallId,
+    toolName,
+    toolArgs,
+    message,
+    cause,
+  }: {
+    toolCallId: string;
+    toolName: string;
+    toolArgs: string;
+    message: string;
+    cause?: unknown;
+  }) {
+    super({
+      name: invalidToolArgumentsErrorName,
+      message: `Invalid arguments for tool ${toolName}: ${message}`,
+      cause,
+    });
+    this.toolCallId = toolCallId;
+    this.toolName = toolName;
+    this.toolArgs = toolArgs;
+  }
+
+  static isInstance(error: unknown): error is InvalidToolArgumentsError {
+    return AISDKError.hasMarker(error, invalidToolArgumentsErrorMarker);
+  }
+}
@@ -30,6 +30,74 @@ export async function generateObject({
   topP,
   stopSequences,
 }: GenerateObjectOptions) {
+  const fullPrompt = prepareObjectPrompt({
+    model,
+    prompt,
+    output,
+    schema,
+    enumValues,
+  });
+
+  try {
+    // Make the API call
+    const response = await model.doGenerate({
+      inputFormat: "prompt",
+      mode: {
+        type: "regular",
+      },
+      prompt: fullPrompt,
+      maxTokens,
+      temperature,
+      topP,
+      stopSequences,
+      responseFormat: output === "enum" ? undefined : { type: "json" },
+    });
+
+    if (!response.text) {
+      throw new NoContentGeneratedError({
+        message: "No content was generated",
+      });
+    }
+
+    const parsedResponse = parseObjectOutput(response.text, {
+      output,
+      schema,
+      enumValues,
+    });
+
+    return {
+      object: parsedResponse,
+      response: response.response,
+      usage: response.usage,
+    };
+  } catch (error) {
+    if (error instanceof NoContentGeneratedError) {
+      throw error;
+    }
+    throw new NoContentGeneratedError({
+      message:
+        error instanceof Error ? error.message : "Unknown error occurred",
+    });
+  }
+}
+
+/**
+ * Validates the output options and adds the output instructions to the prompt.
+ * Shared by `generateObject` and `streamObject`.
+ */
+export function prepareObjectPrompt({
+  model,
+  prompt,
+  output,
+  schema,
+  enumValues,
+}: {
+  model: LanguageModelV1;
+  prompt: LanguageModelV1Prompt;
+  output: NonNullable<GenerateObjectOptions["output"]>;
+  schema?: z.ZodType;
+  enumValues?: string[];
+}): LanguageModelV1Prompt {
   // Validate that the model is an Inflection model
   if (!(model instanceof InflectionChatLanguageModel)) {
     throw new Error("Model must be an Inflection AI model");
@@ -80,90 +148,70 @@ export async function generateObject({
   }
 
   // Add system message to prompt
-  const fullPrompt: LanguageModelV1Prompt = [
-    { role: "system", content: systemMessage },
-    ...prompt,
-  ];
+  return [{ role: "system", content: systemMessage }, ...prompt];
+}
 
-  try {
-    // Make the API call
-    const response = await model.doGenerate({
-      inputFormat: "prompt",
-      mode: {
-        type: "regular",
-      },
-      prompt: fullPrompt,
-      maxTokens,
-      temperature,
-      topP,
-      stopSequences,
-      responseFormat: output === "enum" ? undefined : { type: "json" },
-    });
+/**
+ * Parses the generated text and validates it against the schema or the enum
+ * values of the output strategy.
+ * @throws {NoContentGeneratedError} If the text is not valid for the output strategy
+ */
+export function parseObjectOutput(
+  text: string,
+  {
+    output,
+    schema,
+    enumValues,
+  }: {
+    output: NonNullable<GenerateObjectOptions["output"]>;
+    schema?: z.ZodType;
+    enumValues?: string[];
+  }
+): unknown {
+  let parsedResponse: unknown;
 
-    if (!response.text) {
+  if (output === "enum") {
+    // For enum output, use the raw text
+    parsedResponse = text.trim();
+  } else {
+    // For other outputs, parse as JSON
+    try {
+      parsedResponse = JSON.parse(text);
+    } catch (error) {
       throw new NoContentGeneratedError({
-        message: "No content was generated",
+        message: `Failed to parse JSON: ${error instanceof Error ? error.message : "Unknown error"}`,
       });
     }
+  }
 
-    // Parse and validate the response
-    let parsedResponse: unknown;
-
-    if (output === "enum") {
-      // For enum output, use the raw text
-      parsedResponse = response.text.trim();
-    } else {
-      // For other outputs, parse as JSON
-      try {
-        parsedResponse = JSON.parse(response.text);
-      } catch (error) {
-        throw new NoContentGeneratedError({
-          message: `Failed to parse JSON: ${error instanceof Error ? error.message : "Unknown error"}`,
-        });
-      }
-    }
-
-    // Validate against schema if provided
-    if (schema) {
-      try {
-        if (output === "array") {
-          // For array output, wrap the schema in an array
-          const arraySchema = z.array(schema);
-          parsedResponse = arraySchema.parse(parsedResponse);
-        } else {
-          parsedResponse = schema.parse(parsedResponse);
-        }
-      } catch (error) {
-        throw new NoContentGeneratedError({
-          message: `Schema validation failed: ${error instanceof Error ? error.message : "Unknown error"}`,
-        });
-      }
-    }
-
-    // For enum output, validate against enum values
-    if (output === "enum") {
-      const enumSchema = z.enum(enumValues as [string, ...string[]]);
-      try {
-        parsedResponse = enumSchema.parse(parsedResponse);
-      } catch (error) {
-        throw new NoContentGeneratedError({
-          message: `Invalid enum value: ${error instanceof Error ? error.message : "Unknown error"}`,
-        });
+  // Validate against schema if provided
+  if (schema) {
+    try {
+      if (output === "array") {
+        // For array output, wrap the schema in an array
+        const arraySchema = z.array(schema);
+        parsedResponse = arraySchema.parse(parsedResponse);
+      } else {
+        parsedResponse = schema.parse(parsedResponse);
       }
+    } catch (error) {
+      throw new NoContentGeneratedError({
+        message: `Schema validation failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      });
     }
+  }
 
-    return {
-      object: parsedResponse,
-      response: response.response,
-      usage: response.usage,
-    };
-  } catch (error) {
-    if (error instanceof NoContentGeneratedError) {
-      throw error;
+  // For enum output, validate against enum values
+  if (output === "enum") {
+    const enumSchema = z.enum(enumValues as [string, ...string[]]);
+    try {
+      parsedResponse = enumSchema.parse(parsedResponse);
+    } catch (error) {
+      throw new NoContentGeneratedError({
+        message: `Invalid enum value: ${error instanceof Error ? error.message : "Unknown error"}`,
+      });
     }
-    throw new NoContentGeneratedError({
-      message:
-        error instanceof Error ? error.message : "Unknown error occurred",
-    });
   }
+
+  return parsedResponse;
 }
@@ -0,0 +1,102 @@
+import { InflectionChatModelId } from "./inflection-chat-settings";
+
+export interface InflectionModelCapabilities {
+  /**
+   * Whether the model accepts tool definitions and returns tool calls.
+   */
+  supportsTools: boolean;
+
+  /**
+   * The endpoint the model is served by. With the `auto` endpoint setting,
+   * `openai` models are called through the OpenAI-compatible endpoint when
+   * the call has tools.
+   */
+  endpoint: "native" | "openai";
+
+  /**
+   * Maximum number of tokens of the prompt and the completion combined.
+   */
+  contextWindow: number;
+
+  /**
+   * Maximum number of generated tokens when no `max_tokens` is set.
+   */
+  defaultMaxTokens: number;
+}
+
+const defaultCapabilities: InflectionModelCapabilities = {
+  supportsTools: false,
+  endpoint: "native",
+  contextWindow: 8000,
+  defaultMaxTokens: 1024,
+};
+
+// https://developers.inflection.ai/docs
+const builtInModels: Record<string, InflectionModelCapabilities> = {
+  inflection_3_pi: defaultCapabilities,
+  inflection_3_productivity: defaultCapabilities,
+  inflection_3_with_tools: {
+    ...defaultCapabilities,
+    supportsTools: true,
+    endpoint: "openai",
+  },
+};
+
+export type InflectionModelRegistry = {
+  /**
+   * Returns the capabilities of a model. Unknown models get conservative
+   * defaults (no tools, native endpoint).
+   */
+  get(modelId: InflectionChatModelId): InflectionModelCapabilities;
+
+  /**
+   * Registers a custom model ID or overrides the capabilities of a built-in
+   * or registered model. The given capabilities are merged over the existing
+   * entry, and new models fall back to the defaults for unknown models.
+   */
+  register(
+    modelId: string,
+    capabilities: Partial<InflectionModelCapabilities>,
+  ): void;
+};
+
+/**
+ * Creates a model registry that contains the built-in Inflection models and
+ * the given custom models.
+ */
+export function createInflectionModelRegistry(
+  models: Record<string, Partial<InflectionModelCapabilities>> = {},
+): InflectionModelRegistry {
+  const registeredModels = new Map(Object.entries(builtInModels));
+
+  const registry: InflectionModelRegistry = {
+    get(modelId) {
+      return registeredModels.get(modelId) ?? defaultCapabilities;
+    },
+
+    register(modelId, capabilities) {
+      registeredModels.set(modelId, {
+        ...(registeredModels.get(modelId) ?? defaultCapabilities),
+        ...capabilities,
+      });
+    },
+  };
+
+  for (const [modelId, capabilities] of Object.entries(models)) {
+    registry.register(modelId, capabilities);
+  }
+
+  return registry;
+}
+
+const builtInRegistry = createInflectionModelRegistry();
+
+/**
+ * Returns the capabilities of a built-in model, or the defaults for unknown
+ * models.
+ */
+export function getInflectionModelCapabilities(
+  modelId: InflectionChatModelId,
+): InflectionModelCapabilities {
+  return builtInRegistry.get(modelId);
+}
@@ -3,6 +3,9 @@ import {
   LanguageModelV1CallWarning,
   UnsupportedFunctionalityError,
 } from "@ai-sdk/provider";
+import { InflectionFunctionParameters } from "./inflection-chat-settings";
+import { WEB_SEARCH_TOOL_ID } from "./inflection-tools";
+import { normalizeInflectionJsonSchema } from "./normalize-inflection-json-schema";
 
 export function prepareTools(
   mode: Parameters<LanguageModelV1["doGenerate"]>[0]["mode"] & {
@@ -15,7 +18,7 @@ export function prepareTools(
         function: {
           name: string;
           description: string | undefined;
-          parameters: unknown;
+          parameters: InflectionFunctionParameters;
         };
       }>
     | undefined;
@@ -25,6 +28,8 @@ export function prepareTools(
     | "none"
     | "any"
     | undefined;
+  /** Whether the call enables web search with the web search tool. */
+  webSearch: boolean;
   toolWarnings: LanguageModelV1CallWarning[];
 } {
   // when the tools array is empty, change it to undefined to prevent errors:
@@ -32,28 +37,55 @@ export function prepareTools(
   const toolWarnings: LanguageModelV1CallWarning[] = [];
 
   if (tools == null) {
-    return { tools: undefined, tool_choice: undefined, toolWarnings };
+    return {
+      tools: undefined,
+      tool_choice: undefined,
+      webSearch: false,
+      toolWarnings,
+    };
   }
 
+  // web search is a request setting instead of a tool:
+  const webSearch =
+    mode.toolChoice?.type !== "none" &&
+    tools.some(
+      (tool) =>
+        tool.type === "provider-defined" && tool.id === WEB_SEARCH_TOOL_ID
+    );
+
   const inflectionTools: Array<{
     type: "function";
     function: {
       name: string;
       description: string | undefined;
-      parameters: unknown;
+      parameters: InflectionFunctionParameters;
     };
   }> = [];
 
   for (const tool of tools) {
     if (tool.type === "provider-defined") {
-      toolWarnings.push({ type: "unsupported-tool", tool });
+      if (tool.id !== WEB_SEARCH_TOOL_ID) {
+        toolWarnings.push({ type: "unsupported-tool", tool });
+      }
     } else {
+      // Inflection only supports a subset of JSON schema:
+      const { schema, removedKeywords } = normalizeInflectionJsonSchema(
+        tool.parameters
+      );
+
+      if (removedKeywords.length > 0) {
+        toolWarnings.push({
+          type: "other",
+          message: `Removed unsupported JSON schema keywords from the parameters of tool ${tool.name}: ${removedKeywords.join(", ")}`,
+        });
+      }
+
       inflectionTools.push({
         type: "function",
         function: {
           name: tool.name,
           description: tool.description,
-          parameters: tool.parameters,
+          parameters: schema,
         },
       });
     }
@@ -61,8 +93,22 @@ export function prepareTools(
 
   const toolChoice = mode.toolChoice;
 
+  if (inflectionTools.length === 0) {
+    return {
+      tools: undefined,
+      tool_choice: undefined,
+      webSearch,
+      toolWarnings,
+    };
+  }
+
   if (toolChoice == null) {
-    return { tools: inflectionTools, tool_choice: undefined, toolWarnings };
+    return {
+      tools: inflectionTools,
+      tool_choice: undefined,
+      webSearch,
+      toolWarnings,
+    };
   }
 
   const type = toolChoice.type;
@@ -70,10 +116,20 @@ export function prepareTools(
   switch (type) {
     case "auto":
     case "none":
-      return { tools: inflectionTools, tool_choice: type, toolWarnings };
+      return {
+        tools: inflectionTools,
+        tool_choice: type,
+        webSearch,
+        toolWarnings,
+      };
     case "required":
       // Inflection supports 'any' for required tool usage
-      return { tools: inflectionTools, tool_choice: "any", toolWarnings };
+      return {
+        tools: inflectionTools,
+        tool_choice: "any",
+        webSearch,
+        toolWarnings,
+      };
     case "tool":
       // For specific tool selection, filter to just that tool and use 'any'
       return {
@@ -81,6 +137,7 @@ export function prepareTools(
           (tool) => tool.function.name === toolChoice.toolName
         ),
         tool_choice: "any",
+        webSearch,
         toolWarnings,
       };
     default: {
@@ -1,8 +1,4 @@
-import {
-  LanguageModelV1,
-  ProviderV1,
-  UnsupportedFunctionalityError,
-} from "@ai-sdk/provider";
+import { ProviderV1, UnsupportedFunctionalityError } from "@ai-sdk/provider";
 import {
   FetchFunction,
   loadApiKey,
@@ -10,31 +6,105 @@ import {
 } from "@ai-sdk/provider-utils";
 import { InflectionChatLanguageModel } from "./inflection-chat-language-model";
 import {
+  InflectionBuiltInChatModelId,
   InflectionChatModelId,
   InflectionChatSettings,
 } from "./inflection-chat-settings";
+import { InflectionRetrySettings } from "./retry-with-exponential-backoff";
+import { InflectionApiKeySelection, createApiKeyPool } from "./api-key-pool";
+import { createBaseURLCircuitBreaker } from "./base-url-circuit-breaker";
+import { mergeInflectionChatSettings } from "./merge-inflection-chat-settings";
+import {
+  InflectionModelCapabilities,
+  createInflectionModelRegistry,
+} from "./inflection-model-capabilities";
+import {
+  InflectionCredentialResolver,
+  InflectionExpiringCredential,
+  createCachedCredentialResolver,
+} from "./credential-resolver";
+import { InflectionTokenizer } from "./inflection-tokenizer";
+import { inflectionTools } from "./inflection-tools";
+import { InflectionModelPrice, InflectionUsageEvent } from "./inflection-usage";
+import {
+  InflectionMemoryStore,
+  createInMemoryInflectionMemoryStore,
+} from "./summarize-inflection-context";
+import {
+  InflectionRateLimitSettings,
+  createRequestLimiter,
+} from "./request-limiter";
+
+/**
+ * A named model preset: an underlying model ID with bundled settings.
+ */
+export interface InflectionModelAlias {
+  /**
+   * The model that is called for the alias.
+   */
+  modelId: InflectionChatModelId;
 
-export interface InflectionProvider extends ProviderV1 {
+  /**
+   * Settings of the alias. They override the provider `defaultSettings` and
+   * are overridden by the settings passed when creating the model.
+   */
+  settings?: InflectionChatSettings;
+}
+
+/**
+ * Model IDs accepted by a provider. Providers without aliases accept any model
+ * ID. Providers with aliases only accept the built-in model IDs, their aliases
+ * and the custom models of the `models` setting, so that misspelled aliases
+ * fail at compile time.
+ */
+export type InflectionProviderModelId<
+  ALIAS_ID extends string = never,
+  CUSTOM_MODEL_ID extends string = never,
+> = [ALIAS_ID] extends [never]
+  ? InflectionChatModelId
+  : InflectionBuiltInChatModelId | ALIAS_ID | CUSTOM_MODEL_ID;
+
+export interface InflectionProvider<
+  ALIAS_ID extends string = never,
+  CUSTOM_MODEL_ID extends string = never,
+> extends ProviderV1 {
   (
-    modelId: InflectionChatModelId,
+    modelId: InflectionProviderModelId<ALIAS_ID, CUSTOM_MODEL_ID>,
     settings?: InflectionChatSettings,
-  ): LanguageModelV1;
+  ): InflectionChatLanguageModel;
 
   /**
    * Creates a model for text generation.
    */
   languageModel(
-    modelId: InflectionChatModelId,
+    modelId: InflectionProviderModelId<ALIAS_ID, CUSTOM_MODEL_ID>,
     settings?: InflectionChatSettings,
-  ): LanguageModelV1;
+  ): InflectionChatLanguageModel;
 
   /**
    * Creates a model for text generation.
    */
   chat(
-    modelId: InflectionChatModelId,
+    modelId: InflectionProviderModelId<ALIAS_ID, CUSTOM_MODEL_ID>,
     settings?: InflectionChatSettings,
-  ): LanguageModelV1;
+  ): InflectionChatLanguageModel;
+
+  /**
+   * Registers a custom model ID (e.g. a new or aliased model) with its
+   * capabilities, or overrides the capabilities of a built-in model. Providers
+   * with aliases do not accept the registered ID at compile time, so custom
+   * models of such providers should be configured with the `models` setting.
+   */
+  registerModel(
+    modelId: string,
+    capabilities: Partial<InflectionModelCapabilities>,
+  ): void;
+
+  /**
+   * Provider-defined tools, e.g. `tools.webSearch()` to enable the native web
+   * search for a call.
+   */
+  tools: typeof inflectionTools;
 
   /**
    * Not supported by Inflection AI
@@ -43,60 +113,283 @@ export interface InflectionProvider extends ProviderV1 {
   textEmbeddingModel(modelId: string): never;
 }
 
-export interface InflectionProviderSettings {
+export interface InflectionProviderSettings<
+  ALIAS_ID extends string = never,
+  CUSTOM_MODEL_ID extends string = never,
+> {
   /**
    * Use a different URL prefix for API calls, e.g. to use proxy servers.
    * The default prefix is `https://layercake.pubwestus3.inf7ks8.com/external/api/inference`
+   *
+   * When an ordered list of prefixes is provided, requests go to the first
+   * healthy one and fail over to the next on connection errors or 5xx
+   * responses. The base URL that served a call is reported as
+   * `providerMetadata.inflection.baseURL`.
+   */
+  baseURL?: string | string[];
+
+  /**
+   * How long a base URL stays out of rotation after a connection error or
+   * 5xx response, in milliseconds. Defaults to 30000.
    */
-  baseURL?: string;
+  baseURLCooldownMs?: number;
 
   /**
    * API key that is being sent using the `Authorization` header.
    * It defaults to the `INFLECTION_API_KEY` environment variable.
+   *
+   * When a list of keys is provided, a key is selected per request (see
+   * `apiKeySelection`). Keys that are rejected with 401/403 are quarantined,
+   * keys that receive a 429 cool down, and the request fails over to the
+   * next key within the same call.
+   *
+   * An async function can be provided to fetch short-lived keys per request.
+   * Results returned with an `expiresAt` are cached until they expire, and
+   * the function is called again with `forceRefresh: true` when a request is
+   * rejected with a 401 (the request is then retried once).
+   */
+  apiKey?: string | string[] | InflectionCredentialResolver<string>;
+
+  /**
+   * How a key is selected from an `apiKey` list. `round-robin` rotates through
+   * the keys, `least-recently-throttled` prefers the key whose last 429 is
+   * the longest ago. Defaults to `round-robin`.
+   */
+  apiKeySelection?: InflectionApiKeySelection;
+
+  /**
+   * How long a key is skipped after a 429 response, in milliseconds, unless
+   * the response contains a `Retry-After` header. Defaults to 60000.
    */
-  apiKey?: string;
+  apiKeyCooldownMs?: number;
 
   /**
-   * Custom headers to include in the requests.
+   * Custom headers to include in the requests. Can be an async function that
+   * is resolved per request, with the same caching and 401 refresh behavior
+   * as an `apiKey` function.
    */
-  headers?: Record<string, string>;
+  headers?:
+    | Record<string, string>
+    | InflectionCredentialResolver<Record<string, string>>;
 
   /**
    * Custom fetch implementation. You can use it as a middleware to intercept requests,
    * or to provide a custom fetch implementation for e.g. testing.
    */
   fetch?: FetchFunction;
+
+  /**
+   * Retry behavior for failed API calls (rate limits, server errors and
+   * connection errors). Retries are disabled by default.
+   */
+  retry?: InflectionRetrySettings;
+
+  /**
+   * Client-side requests-per-minute limit and concurrency cap. The limits are
+   * shared by all models created from this provider instance.
+   */
+  rateLimit?: InflectionRateLimitSettings;
+
+  /**
+   * Default maximum duration of a single request attempt in milliseconds. For
+   * streaming calls it covers the time until the response headers arrive.
+   * Exceeding a timeout throws an `InflectionTimeoutError`.
+   */
+  timeoutMs?: number;
+
+  /**
+   * Default maximum wait for the first stream chunk in milliseconds.
+   */
+  firstChunkTimeoutMs?: number;
+
+  /**
+   * Default maximum wait between two stream chunks in milliseconds.
+   */
+  chunkIdleTimeoutMs?: number;
+
+  /**
+   * Settings applied to every model created by this provider. They are
+   * deep-merged with the model settings (model settings win, nested objects
+   * such as `metadata` are merged key by key), and call options such as
+   * `temperature` or `maxTokens` override both. The effective settings are
+   * available as `model.settings`.
+   */
+  defaultSettings?: InflectionChatSettings;
+
+  /**
+   * Capabilities of custom model IDs, e.g. new or aliased models. Entries for
+   * built-in model IDs override the given capabilities and keep the others.
+   * Missing capabilities of new models fall back to the defaults for unknown
+   * models (no tools, native endpoint).
+   */
+  models?: Record<CUSTOM_MODEL_ID, Partial<InflectionModelCapabilities>>;
+
+  /**
+   * Named model presets, e.g. `support-bot` or `summarizer`. Creating a model
+   * with an alias ID calls the underlying model with the alias settings.
+   * Once aliases are defined, the provider only accepts the built-in model
+   * IDs, the alias IDs and the model IDs of the `models` setting.
+   */
+  aliases?: Record<ALIAS_ID, InflectionModelAlias>;
+
+  /**
+   * Tokenizer used to estimate usage (the API does not report token counts)
+   * and for `model.countTokens`. Defaults to an offline approximation of the
+   * Inflection BPE tokenizer.
+   */
+  tokenizer?: InflectionTokenizer;
+
+  /**
+   * Store for the conversation summaries of models with `memory` settings.
+   * Defaults to an in-memory store that is shared by all models of the
+   * provider.
+   */
+  memoryStore?: InflectionMemoryStore;
+
+  /**
+   * Called with the usage of every `doGenerate` call and every completed
+   * `doStream` call, e.g. to attribute spend per customer with tags passed via
+   * `providerOptions: { inflection: { tags } }`. Errors thrown by the callback
+   * are ignored.
+   */
+  onUsage?: (event: InflectionUsageEvent) => void | PromiseLike<void>;
+
+  /**
+   * Prices in USD per million tokens by model ID, used to compute the `cost`
+   * of usage events.
+   */
+  prices?: Record<string, InflectionModelPrice>;
 }
 
 /**
  * Create an Inflection AI provider instance.
  */
-export function createInflection(
-  options: InflectionProviderSettings = {},
-): InflectionProvider {
-  const baseURL =
-    withoutTrailingSlash(options.baseURL) ??
-    "https://layercake.pubwestus3.inf7ks8.com/external/api/inference";
-
-  const getHeaders = () => ({
-    Authorization: `Bearer ${loadApiKey({
-      apiKey: options.apiKey,
-      environmentVariableName: "INFLECTION_API_KEY",
-      description: "Inflection",
-    })}`,
-    ...options.headers,
+export function createInflection<
+  ALIAS_ID extends string = never,
+  CUSTOM_MODEL_ID extends string = never,
+>(
+  options: InflectionProviderSettings<ALIAS_ID, CUSTOM_MODEL_ID> = {},
+): InflectionProvider<ALIAS_ID, CUSTOM_MODEL_ID> {
+  const configuredBaseURLs =
+    typeof options.baseURL === "string"
+      ? [options.baseURL]
+      : (options.baseURL ?? []);
+
+  const baseURLs =
+    configuredBaseURLs.length > 0
+      ? configuredBaseURLs.map((baseURL) => withoutTrailingSlash(baseURL)!)
+      : ["https://layercake.pubwestus3.inf7ks8.com/external/api/inference"];
+
+  const baseURLCircuitBreaker = createBaseURLCircuitBreaker({
+    cooldownMs: options.baseURLCooldownMs,
+  });
+
+  const apiKeyOption = options.apiKey;
+  const headersOption = options.headers;
+
+  const resolveApiKey =
+    typeof apiKeyOption === "function"
+      ? createCachedCredentialResolver(
+          apiKeyOption,
+          (result) => typeof result !== "string",
+        )
+      : undefined;
+
+  const resolveHeaders =
+    typeof headersOption === "function"
+      ? createCachedCredentialResolver(
+          headersOption,
+          // header values are strings, so an object value marks the wrapper:
+          (
+            result,
+          ): result is InflectionExpiringCredential<Record<string, string>> =>
+            typeof result.value === "object",
+        )
+      : undefined;
+
+  const getApiKeys = async ({ forceRefresh }: { forceRefresh: boolean }) => {
+    if (resolveApiKey != null) {
+      return [await resolveApiKey({ forceRefresh })];
+    }
+
+    return Array.isArray(apiKeyOption) && apiKeyOption.length > 0
+      ? apiKeyOption
+      : [
+          loadApiKey({
+            apiKey: typeof apiKeyOption === "string" ? apiKeyOption : undefined,
+            environmentVariableName: "INFLECTION_API_KEY",
+            description: "Inflection",
+          }),
+        ];
+  };
+
+  const apiKeyPool = createApiKeyPool({
+    selection: options.apiKeySelection,
+    cooldownMs: options.apiKeyCooldownMs,
+  });
+
+  const getHeaders = async (
+    apiKey: string,
+    { forceRefresh }: { forceRefresh: boolean },
+  ) => ({
+    Authorization: `Bearer ${apiKey}`,
+    ...(resolveHeaders != null
+      ? await resolveHeaders({ forceRefresh })
+      : headersOption),
   });
 
+  const modelRegistry = createInflectionModelRegistry(options.models);
+
+  const limiter =
+    options.rateLimit != null
+      ? createRequestLimiter(options.rateLimit)
+      : undefined;
+
+  const memoryStore =
+    options.memoryStore ?? createInMemoryInflectionMemoryStore();
+
+  const aliases: Record<string, InflectionModelAlias> = options.aliases ?? {};
+
   const createChatModel = (
     modelId: InflectionChatModelId,
     settings: InflectionChatSettings = {},
-  ) =>
-    new InflectionChatLanguageModel(modelId, settings, {
-      provider: "inflection.chat",
-      baseURL,
-      headers: getHeaders,
-      fetch: options.fetch,
-    });
+  ) => {
+    const alias = Object.prototype.hasOwnProperty.call(aliases, modelId)
+      ? aliases[modelId]
+      : undefined;
+
+    return new InflectionChatLanguageModel(
+      alias?.modelId ?? modelId,
+      mergeInflectionChatSettings(
+        options.defaultSettings,
+        alias?.settings,
+        settings,
+      ),
+      {
+        provider: "inflection.chat",
+        baseURLs,
+        baseURLCircuitBreaker,
+        headers: getHeaders,
+        apiKeys: getApiKeys,
+        apiKeyPool,
+        refreshCredentialsOnUnauthorized:
+          resolveApiKey != null || resolveHeaders != null,
+        modelRegistry,
+        tokenizer: options.tokenizer,
+        memoryStore,
+        onUsage: options.onUsage,
+        prices: options.prices,
+        fetch: options.fetch,
+        retry: options.retry,
+        limiter,
+        timeouts: {
+          timeoutMs: options.timeoutMs,
+          firstChunkTimeoutMs: options.firstChunkTimeoutMs,
+          chunkIdleTimeoutMs: options.chunkIdleTimeoutMs,
+        },
+      },
+    );
+  };
 
   const provider = function (
     modelId: InflectionChatModelId,
@@ -113,6 +406,8 @@ export function createInflection(
 
   provider.languageModel = createChatModel;
   provider.chat = createChatModel;
+  provider.registerModel = modelRegistry.register;
+  provider.tools = inflectionTools;
   provider.textEmbeddingModel = () => {
     throw new UnsupportedFunctionalityError({
       functionality: "Text embeddings are not supported by Inflection AI",
@@ -0,0 +1,144 @@
+import { expect, describe, it } from "vitest";
+import { z } from "zod";
+import { createTestServer } from "@ai-sdk/provider-utils/test";
+import { NoContentGeneratedError } from "@ai-sdk/provider";
+import { createInflection } from "./inflection-provider";
+import { streamObject } from "./inflection-stream-object";
+
+const INFERENCE_URL =
+  "https://layercake.pubwestus3.inf7ks8.com/external/api/inference";
+const STREAMING_URL = `${INFERENCE_URL}/streaming`;
+
+const server = createTestServer({
+  [STREAMING_URL]: {},
+});
+
+const provider = createInflection({
+  apiKey: "test-api-key",
+  baseURL: INFERENCE_URL,
+});
+
+const prompt = [
+  {
+    role: "user" as const,
+    content: [{ type: "text" as const, text: "Generate a lasagna recipe" }],
+  },
+];
+
+function prepareStreamResponse(textDeltas: string[]) {
+  server.urls[STREAMING_URL].response = {
+    type: "stream-chunks",
+    chunks: textDeltas.map(
+      (text, idx) =>
+        `data: ${JSON.stringify({ created: 1728094708.2514212, idx, text })}\n\n`,
+    ),
+  };
+}
+
+async function collect<T>(stream: AsyncIterable<T>): Promise<T[]> {
+  const values: T[] = [];
+  for await (const value of stream) {
+    values.push(value);
+  }
+  return values;
+}
+
+describe("streamObject", () => {
+  it("should stream growing partial objects", async () => {
+    prepareStreamResponse([
+      '{"name":"Classic ',
+      'Lasagna","steps":["Boil',
+      ' noodles","Brown meat"]}',
+    ]);
+
+    const result = await streamObject({
+      model: provider.chat("inflection_3_productivity"),
+      schema: z.object({ name: z.string(), steps: z.array(z.string()) }),
+      prompt,
+    });
+
+    expect(await collect(result.partialObjectStream)).toStrictEqual([
+      { name: "Classic " },
+      { name: "Classic Lasagna", steps: ["Boil"] },
+      { name: "Classic Lasagna", steps: ["Boil noodles", "Brown meat"] },
+    ]);
+    expect(await result.object).toStrictEqual({
+      name: "Classic Lasagna",
+      steps: ["Boil noodles", "Brown meat"],
+    });
+    expect(await result.usage).toStrictEqual({
+      promptTokens: expect.any(Number),
+      completionTokens: expect.any(Number),
+    });
+  });
+
+  it("should stream complete array elements", async () => {
+    prepareStreamResponse([
+      '[{"name":"Warrior"},{"na',
+      'me":"Mage"},',
+      '{"name":"Rogue"}]',
+    ]);
+
+    const result = await streamObject({
+      model: provider.chat("inflection_3_productivity"),
+      output: "array",
+      schema: z.object({ name: z.string() }),
+      prompt,
+    });
+
+    expect(await collect(result.elementStream)).toStrictEqual([
+      { name: "Warrior" },
+      { name: "Mage" },
+      { name: "Rogue" },
+    ]);
+    expect(await result.object).toHaveLength(3);
+  });
+
+  it("should stream enum output as text", async () => {
+    prepareStreamResponse(["sun", "ny"]);
+
+    const result = await streamObject({
+      model: provider.chat("inflection_3_productivity"),
+      output: "enum",
+      enum: ["sunny", "rainy"],
+      prompt,
+    });
+
+    expect(await collect(result.partialObjectStream)).toStrictEqual([
+      "sun",
+      "sunny",
+    ]);
+    expect(await result.object).toBe("sunny");
+  });
+
+  it("should stream no-schema output", async () => {
+    prepareStreamResponse(['{"answer":', "42}"]);
+
+    const result = await streamObject({
+      model: provider.chat("inflection_3_productivity"),
+      output: "no-schema",
+      prompt,
+    });
+
+    expect(await collect(result.partialObjectStream)).toStrictEqual([
+      {},
+      { answer: 42 },
+    ]);
+    expect(await result.object).toStrictEqual({ answer: 42 });
+  });
+
+  it("should reject the object with NoContentGeneratedError for invalid JSON", async () => {
+    prepareStreamResponse(['{"name":', '"Lasagna"']);
+
+    const result = await streamObject({
+      model: provider.chat("inflection_3_productivity"),
+      schema: z.object({ name: z.string() }),
+      prompt,
+    });
+
+    await expect(collect(result.partialObjectStream)).rejects.toThrow(
+      NoContentGeneratedError,
+    );
+    await expect(result.object).rejects.toThrow(NoContentGeneratedError);
+  });
+});
@@ -0,0 +1,257 @@
+import { z } from "zod";
+import {
+  LanguageModelV1StreamPart,
+  NoContentGeneratedError,
+} from "@ai-sdk/provider";
+import {
+  GenerateObjectOptions,
+  parseObjectOutput,
+  prepareObjectPrompt,
+} from "./inflection-generate-object";
+import { parsePartialJson } from "./parse-partial-json";
+
+export type StreamObjectOptions = GenerateObjectOptions & {
+  abortSignal?: AbortSignal;
+};
+
+/**
+ * A stream that can also be consumed with `for await`.
+ */
+export type AsyncIterableStream<T> = ReadableStream<T> & AsyncIterable<T>;
+
+type StreamObjectUsage = { promptTokens: number; completionTokens: number };
+
+type StreamObjectResponse = { id?: string; timestamp?: Date; modelId?: string };
+
+export type StreamObjectResult = {
+  /**
+   * Deep-partial objects that grow as the JSON is streamed. For enum output,
+   * the text streamed so far.
+   */
+  partialObjectStream: AsyncIterableStream<unknown>;
+
+  /**
+   * For array output, each array element once it is complete and validated
+   * against the schema. Empty for other output strategies.
+   */
+  elementStream: AsyncIterableStream<unknown>;
+
+  /**
+   * The final object, validated like the result of `generateObject`.
+   * Rejects with a `NoContentGeneratedError` when the output is invalid.
+   */
+  object: Promise<unknown>;
+
+  usage: Promise<StreamObjectUsage>;
+
+  response: Promise<StreamObjectResponse>;
+};
+
+export async function streamObject({
+  model,
+  prompt,
+  output = "object",
+  schema,
+  enum: enumValues,
+  maxTokens,
+  temperature,
+  topP,
+  stopSequences,
+  abortSignal,
+}: StreamObjectOptions): Promise<StreamObjectResult> {
+  const fullPrompt = prepareObjectPrompt({
+    model,
+    prompt,
+    output,
+    schema,
+    enumValues,
+  });
+
+  let stream: ReadableStream<LanguageModelV1StreamPart>;
+  try {
+    ({ stream } = await model.doStream({
+      inputFormat: "prompt",
+      mode: {
+        type: "regular",
+      },
+      prompt: fullPrompt,
+      maxTokens,
+      temperature,
+      topP,
+      stopSequences,
+      responseFormat: output === "enum" ? undefined : { type: "json" },
+      abortSignal,
+    }));
+  } catch (error) {
+    throw new NoContentGeneratedError({
+      message:
+        error instanceof Error ? error.message : "Unknown error occurred",
+    });
+  }
+
+  const partialObjects = new TransformStream<unknown, unknown>();
+  const elements = new TransformStream<unknown, unknown>();
+  const partialObjectWriter = partialObjects.writable.getWriter();
+  const elementWriter = elements.writable.getWriter();
+
+  const object = createDeferred<unknown>();
+  const usage = createDeferred<StreamObjectUsage>();
+  const response = createDeferred<StreamObjectResponse>();
+
+  const elementSchema = schema ?? z.unknown();
+  let text = "";
+  let lastPartialObject: string | undefined;
+  let emittedElements = 0;
+
+  const emitElements = (array: unknown[], completeElements: number) => {
+    for (; emittedElements < completeElements; emittedElements++) {
+      const element = elementSchema.safeParse(array[emittedElements]);
+      if (!element.success) {
+        throw new NoContentGeneratedError({
+          message: `Schema validation failed: ${element.error.message}`,
+        });
+      }
+      elementWriter.write(element.data).catch(() => {});
+    }
+  };
+
+  const consumeStream = async () => {
+    const reader = stream.getReader();
+    let responseMetadata: StreamObjectResponse = {};
+
+    for (;;) {
+      const { done, value: part } = await reader.read();
+      if (done) {
+        break;
+      }
+
+      switch (part.type) {
+        case "response-metadata": {
+          responseMetadata = {
+            id: part.id,
+            timestamp: part.timestamp,
+            modelId: part.modelId,
+          };
+          break;
+        }
+
+        case "text-delta": {
+          text += part.textDelta;
+
+          const partialObject =
+            output === "enum" ? text.trim() : parsePartialJson(text).value;
+          if (partialObject === undefined) {
+            break;
+          }
+
+          // only emit partial objects that changed:
+          const serialized = JSON.stringify(partialObject);
+          if (serialized !== lastPartialObject) {
+            lastPartialObject = serialized;
+            partialObjectWriter.write(partialObject).catch(() => {});
+          }
+
+          // all but the last element of a partial array are complete:
+          if (output === "array" && Array.isArray(partialObject)) {
+            emitElements(partialObject, partialObject.length - 1);
+          }
+          break;
+        }
+
+        case "finish": {
+          usage.resolve(part.usage);
+          break;
+        }
+
+        case "error": {
+          throw part.error;
+        }
+      }
+    }
+
+    if (!text) {
+      throw new NoContentGeneratedError({
+        message: "No content was generated",
+      });
+    }
+
+    const finalObject = parseObjectOutput(text, {
+      output,
+      schema,
+      enumValues,
+    });
+
+    if (output === "array" && Array.isArray(finalObject)) {
+      emitElements(finalObject, finalObject.length);
+    }
+
+    response.resolve(responseMetadata);
+    object.resolve(finalObject);
+  };
+
+  consumeStream().then(
+    () => {
+      partialObjectWriter.close().catch(() => {});
+      elementWriter.close().catch(() => {});
+    },
+    (error) => {
+      const objectError = NoContentGeneratedError.isInstance(error)
+        ? error
+        : new NoContentGeneratedError({
+            message:
+              error instanceof Error ? error.message : "Unknown error occurred",
+          });
+
+      partialObjectWriter.abort(objectError).catch(() => {});
+      elementWriter.abort(objectError).catch(() => {});
+      object.reject(objectError);
+      usage.reject(objectError);
+      response.reject(objectError);
+    },
+  );
+
+  return {
+    partialObjectStream: createAsyncIterableStream(partialObjects.readable),
+    elementStream: createAsyncIterableStream(elements.readable),
+    object: object.promise,
+    usage: usage.promise,
+    response: response.promise,
+  };
+}
+
+function createAsyncIterableStream<T>(
+  stream: ReadableStream<T>,
+): AsyncIterableStream<T> {
+  const iterableStream = stream as AsyncIterableStream<T>;
+
+  iterableStream[Symbol.asyncIterator] = () => {
+    const reader = stream.getReader();
+    return {
+      async next() {
+        const { done, value } = await reader.read();
+        return done ? { done: true, value: undefined } : { done: false, value };
+      },
+      async return() {
+        reader.releaseLock();
+        return { done: true, value: undefined };
+      },
+    };
+  };
+
+  return iterableStream;
+}
+
+function createDeferred<T>() {
+  let resolve!: (value: T) => void;
+  let reject!: (error: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+
+  // rejections surface through the streams; avoid unhandled rejections when
+  // the promise is not used:
+  promise.catch(() => {});
+
+  return { promise, resolve, reject };
+}
@@ -0,0 +1,69 @@
+import { expect, describe, it } from "vitest";
+import {
+  approximateInflectionTokenizer,
+  countInflectionRequestTokens,
+} from "./inflection-tokenizer";
+
+const { countTokens } = approximateInflectionTokenizer;
+
+describe("approximateInflectionTokenizer", () => {
+  it("should count common English words as one token each", () => {
+    expect(countTokens("Hello there, how are you?")).toBe(7);
+  });
+
+  it("should split long words and numbers", () => {
+    expect(countTokens("antidisestablishmentarianism")).toBe(5);
+    expect(countTokens("1234567")).toBe(3);
+  });
+
+  it("should count CJK characters individually", () => {
+    expect(countTokens("你好世界")).toBe(4);
+  });
+
+  it("should count other scripts by their UTF-8 length", () => {
+    // 12 bytes of Cyrillic:
+    expect(countTokens("привет")).toBe(3);
+  });
+
+  it("should count JSON syntax more densely than prose", () => {
+    const json = JSON.stringify({ location: "San Francisco", unit: "c" });
+    expect(countTokens(json)).toBeGreaterThan(json.length / 4);
+  });
+
+  it("should return 0 for empty text", () => {
+    expect(countTokens("")).toBe(0);
+  });
+});
+
+describe("countInflectionRequestTokens", () => {
+  const tokenizer = { countTokens: (text: string) => text.length };
+
+  it("should count messages, tool calls, tools and metadata", () => {
+    expect(
+      countInflectionRequestTokens(tokenizer, {
+        context: [
+          { type: "Instruction", text: "abc" },
+          {
+            type: "AI",
+            text: "",
+            tool_calls: [
+              {
+                id: "call-1",
+                type: "function",
+                function: { name: "fn", arguments: "{}" },
+              },
+            ],
+          },
+        ],
+        tools: [{ name: "fn" }],
+        metadata: { user_city: "X" },
+      }),
+    ).toBe(
+      4 +
+        3 +
+        (4 + 2 + 2) +
+        '[{"name":"fn"}]'.length +
+        '{"user_city":"X"}'.length,
+    );
+  });
+});
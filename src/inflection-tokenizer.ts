@@ -0,0 +1,117 @@
+import { InflectionContext } from "./convert-to-inflection-chat-messages";
+import { InflectionChatSettings } from "./inflection-chat-settings";
+
+/**
+ * Counts tokens for usage reporting and prompt budgeting. Implement it to plug
+ * in an exact tokenizer.
+ */
+export interface InflectionTokenizer {
+  countTokens(text: string): number;
+}
+
+// GPT-style pre-tokenization: contractions, words and numbers with an optional
+// leading space, punctuation runs, and whitespace runs.
+const PRE_TOKEN_PATTERN =
+  /'(?:[sdmt]|ll|ve|re)| ?\p{L}+| ?\p{N}+| ?[^\s\p{L}\p{N}]+|\s+(?!\S)|\s+/gu;
+
+const CJK_PATTERN =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Hangul}]/u;
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Offline approximation of the byte-level BPE tokenizers used by Inflection
+ * models. Common English words count as one token, long words and numbers are
+ * split into chunks, CJK characters count as one token each, and other
+ * non-ASCII text and symbols are counted by their UTF-8 length.
+ */
+export const approximateInflectionTokenizer: InflectionTokenizer = {
+  countTokens(text) {
+    let tokens = 0;
+
+    for (const piece of text.match(PRE_TOKEN_PATTERN) ?? []) {
+      tokens += countPreTokenTokens(
+        piece.startsWith(" ") ? piece.slice(1) : piece,
+      );
+    }
+
+    return tokens;
+  },
+};
+
+function countPreTokenTokens(piece: string): number {
+  if (piece.length === 0) {
+    return 1; // a lone space
+  }
+
+  if (/^\s+$/.test(piece)) {
+    return Math.ceil(piece.length / 4);
+  }
+
+  if (/^\p{N}+$/u.test(piece)) {
+    return Math.ceil(piece.length / 3);
+  }
+
+  if (/^\p{L}+$/u.test(piece)) {
+    if (/^[a-zA-Z]+$/.test(piece)) {
+      return Math.ceil(piece.length / 6);
+    }
+
+    let tokens = 0;
+    let otherBytes = 0;
+    for (const char of piece) {
+      if (CJK_PATTERN.test(char)) {
+        tokens++;
+      } else {
+        otherBytes += textEncoder.encode(char).length;
+      }
+    }
+    return tokens + Math.ceil(otherBytes / 4);
+  }
+
+  // punctuation and symbols, e.g. JSON syntax or emoji:
+  return Math.ceil(textEncoder.encode(piece).length / 2);
+}
+
+// framing tokens around each message (type marker and separators):
+const TOKENS_PER_MESSAGE = 4;
+
+/**
+ * Counts the tokens of a full Inflection request body: the context messages
+ * including instructions and tool calls, the tool definitions, and the user
+ * metadata.
+ */
+export function countInflectionRequestTokens(
+  tokenizer: InflectionTokenizer,
+  {
+    context,
+    tools,
+    metadata,
+  }: {
+    context: InflectionContext;
+    tools?: unknown[];
+    metadata?: InflectionChatSettings["metadata"];
+  },
+): number {
+  let tokens = 0;
+
+  for (const message of context) {
+    tokens += TOKENS_PER_MESSAGE + tokenizer.countTokens(message.text);
+
+    for (const toolCall of message.tool_calls ?? []) {
+      tokens +=
+        tokenizer.countTokens(toolCall.function.name) +
+        tokenizer.countTokens(toolCall.function.arguments);
+    }
+  }
+
+  if (tools?.length) {
+    tokens += tokenizer.countTokens(JSON.stringify(tools));
+  }
+
+  if (metadata != null) {
+    tokens += tokenizer.countTokens(JSON.stringify(metadata));
+  }
+
+  return tokens;
+}
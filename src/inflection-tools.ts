@@ -0,0 +1,22 @@
+import { z } from "zod";
+
+export const WEB_SEARCH_TOOL_ID = "inflection.web_search" as const;
+
+/**
+ * Enables the native web search of Inflection for the calls that include the
+ * tool, independent of the `web_search` setting. The search runs on the
+ * Inflection side, so the tool has no arguments and is never called by the
+ * client.
+ */
+function webSearch() {
+  return {
+    type: "provider-defined" as const,
+    id: WEB_SEARCH_TOOL_ID,
+    args: {},
+    parameters: z.object({}),
+  };
+}
+
+export const inflectionTools = {
+  webSearch,
+};
@@ -0,0 +1,82 @@
+import { expect, describe, it } from "vitest";
+import {
+  InflectionUsageEvent,
+  computeInflectionCost,
+  createInflectionUsageAggregator,
+} from "./inflection-usage";
+
+function createEvent(
+  overrides: Partial<InflectionUsageEvent>,
+): InflectionUsageEvent {
+  return {
+    modelId: "inflection_3_pi",
+    type: "generate",
+    promptTokens: 100,
+    completionTokens: 50,
+    estimated: true,
+    latencyMs: 10,
+    tags: [],
+    cost: undefined,
+    ...overrides,
+  };
+}
+
+describe("computeInflectionCost", () => {
+  it("should compute the cost from prices per million tokens", () => {
+    expect(
+      computeInflectionCost(
+        { promptTokens: 2.5, completionTokens: 10 },
+        { promptTokens: 1_000_000, completionTokens: 500_000 },
+      ),
+    ).toBe(7.5);
+  });
+});
+
+describe("createInflectionUsageAggregator", () => {
+  it("should aggregate totals overall and per tag", () => {
+    const aggregator = createInflectionUsageAggregator();
+
+    aggregator.onUsage(createEvent({ tags: ["customer-a"], cost: 0.5 }));
+    aggregator.onUsage(
+      createEvent({ tags: ["customer-a", "support"], cost: 0.25 }),
+    );
+    aggregator.onUsage(createEvent({ tags: ["customer-b"] }));
+
+    expect(aggregator.getTotals()).toStrictEqual({
+      requests: 3,
+      promptTokens: 300,
+      completionTokens: 150,
+      cost: 0.75,
+    });
+    expect(aggregator.getTotalsByTag()).toStrictEqual({
+      "customer-a": {
+        requests: 2,
+        promptTokens: 200,
+        completionTokens: 100,
+        cost: 0.75,
+      },
+      support: {
+        requests: 1,
+        promptTokens: 100,
+        completionTokens: 50,
+        cost: 0.25,
+      },
+      "customer-b": {
+        requests: 1,
+        promptTokens: 100,
+        completionTokens: 50,
+        cost: 0,
+      },
+    });
+  });
+
+  it("should clear all totals on reset", () => {
+    const aggregator = createInflectionUsageAggregator();
+    aggregator.onUsage(createEvent({ tags: ["customer-a"] }));
+
+    aggregator.reset();
+
+    expect(aggregator.getTotals().requests).toBe(0);
+    expect(aggregator.getTotalsByTag()).toStrictEqual({});
+  });
+});
@@ -0,0 +1,132 @@
+import { InflectionChatModelId } from "./inflection-chat-settings";
+
+/**
+ * Prices of a model in USD per million tokens.
+ */
+export type InflectionModelPrice = {
+  promptTokens: number;
+  completionTokens: number;
+};
+
+export type InflectionUsageEvent = {
+  /** The model ID that was called (the underlying model for aliases). */
+  modelId: InflectionChatModelId;
+  /**
+   * Whether the usage comes from `doGenerate`, a completed `doStream`, or a
+   * request that summarizes older turns for `memory`.
+   */
+  type: "generate" | "stream" | "summary";
+  promptTokens: number;
+  completionTokens: number;
+  /**
+   * Whether the token counts are estimated. Always true: the API does not
+   * report usage, so the counts are computed client-side with the provider
+   * tokenizer, also when a custom tokenizer is configured.
+   */
+  estimated: true;
+  /** Time from the start of the call until the response was complete. */
+  latencyMs: number;
+  /** Tags passed via `providerOptions: { inflection: { tags } }`. */
+  tags: string[];
+  /** Cost in USD, or undefined when the price table has no entry for the model. */
+  cost: number | undefined;
+};
+
+export type InflectionUsageTotals = {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  /** Cost in USD of the requests with a known price. */
+  cost: number;
+};
+
+export type InflectionUsageAggregator = {
+  /**
+   * Records a usage event. Pass it as the provider `onUsage` callback.
+   */
+  onUsage(event: InflectionUsageEvent): void;
+
+  /**
+   * Returns the totals of all recorded events.
+   */
+  getTotals(): InflectionUsageTotals;
+
+  /**
+   * Returns the totals per tag. Events with several tags count towards each
+   * of their tags.
+   */
+  getTotalsByTag(): Record<string, InflectionUsageTotals>;
+
+  /**
+   * Clears all recorded events.
+   */
+  reset(): void;
+};
+
+/**
+ * Computes the cost of a call in USD.
+ */
+export function computeInflectionCost(
+  price: InflectionModelPrice,
+  {
+    promptTokens,
+    completionTokens,
+  }: { promptTokens: number; completionTokens: number },
+): number {
+  return (
+    (promptTokens * price.promptTokens +
+      completionTokens * price.completionTokens) /
+    1_000_000
+  );
+}
+
+/**
+ * Creates an in-memory aggregator of usage events with per-tag totals.
+ */
+export function createInflectionUsageAggregator(): InflectionUsageAggregator {
+  let totals = createEmptyTotals();
+  let totalsByTag = new Map<string, InflectionUsageTotals>();
+
+  return {
+    onUsage(event) {
+      addEvent(totals, event);
+
+      for (const tag of new Set(event.tags)) {
+        let tagTotals = totalsByTag.get(tag);
+        if (tagTotals == null) {
+          tagTotals = createEmptyTotals();
+          totalsByTag.set(tag, tagTotals);
+        }
+        addEvent(tagTotals, event);
+      }
+    },
+
+    getTotals() {
+      return { ...totals };
+    },
+
+    getTotalsByTag() {
+      const result: Record<string, InflectionUsageTotals> = {};
+      totalsByTag.forEach((tagTotals, tag) => {
+        result[tag] = { ...tagTotals };
+      });
+      return result;
+    },
+
+    reset() {
+      totals = createEmptyTotals();
+      totalsByTag = new Map();
+    },
+  };
+}
+
+function createEmptyTotals(): InflectionUsageTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+}
+
+function addEvent(totals: InflectionUsageTotals, event: InflectionUsageEvent) {
+  totals.requests++;
+  totals.promptTokens += event.promptTokens;
+  totals.completionTokens += event.completionTokens;
+  totals.cost += event.cost ?? 0;
+}
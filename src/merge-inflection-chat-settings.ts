@@ -0,0 +1,50 @@
+import { InflectionChatSettings } from "./inflection-chat-settings";
+
+/**
+ * Deep-merges chat settings from lowest to highest precedence. Nested objects
+ * such as `metadata` are merged key by key, arrays are replaced, and
+ * `undefined` values never override a value from an earlier layer.
+ */
+export function mergeInflectionChatSettings(
+  ...layers: Array<InflectionChatSettings | undefined>
+): InflectionChatSettings {
+  return layers.reduce<InflectionChatSettings>(
+    (merged, layer) =>
+      layer != null
+        ? (deepMerge(
+            merged as Record<string, unknown>,
+            layer as Record<string, unknown>,
+          ) as InflectionChatSettings)
+        : merged,
+    {},
+  );
+}
+
+function deepMerge(
+  target: Record<string, unknown>,
+  source: Record<string, unknown>,
+): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...target };
+
+  for (const [key, value] of Object.entries(source)) {
+    if (value === undefined) {
+      continue;
+    }
+
+    const existing = result[key];
+    result[key] =
+      isPlainObject(existing) && isPlainObject(value)
+        ? deepMerge(existing, value)
+        : value;
+  }
+
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return (
+    value != null &&
+    typeof value === "object" &&
+    Object.getPrototypeOf(value) === Object.prototype
+  );
+}
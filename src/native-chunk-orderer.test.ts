@@ -0,0 +1,83 @@
+import { expect, describe, it, vi } from "vitest";
+import { createNativeChunkOrderer } from "./native-chunk-orderer";
+
+const chunk = (idx: number) => ({ idx, text: `${idx}` });
+
+describe("createNativeChunkOrderer", () => {
+  it("should emit chunks in idx order", () => {
+    const orderer = createNativeChunkOrderer({ onGap: vi.fn() });
+
+    expect(orderer.push(chunk(1))).toStrictEqual([]);
+    expect(orderer.push(chunk(0))).toStrictEqual([chunk(0), chunk(1)]);
+    expect(orderer.push(chunk(2))).toStrictEqual([chunk(2)]);
+  });
+
+  it("should start at the smallest idx of streams without idx 0", () => {
+    const onGap = vi.fn();
+    const orderer = createNativeChunkOrderer({ windowSize: 2, onGap });
+
+    expect(orderer.push(chunk(2))).toStrictEqual([]);
+    expect(orderer.push(chunk(1))).toStrictEqual([]);
+    expect(orderer.push(chunk(3))).toStrictEqual([
+      chunk(1),
+      chunk(2),
+      chunk(3),
+    ]);
+    expect(orderer.push(chunk(4))).toStrictEqual([chunk(4)]);
+    expect(onGap).not.toHaveBeenCalled();
+  });
+
+  it("should start at the smallest idx on flush", () => {
+    const onGap = vi.fn();
+    const orderer = createNativeChunkOrderer({ onGap });
+
+    orderer.push(chunk(2));
+    orderer.push(chunk(1));
+
+    expect(orderer.flush()).toStrictEqual([chunk(1), chunk(2)]);
+    expect(onGap).not.toHaveBeenCalled();
+  });
+
+  it("should drop duplicate chunks", () => {
+    const orderer = createNativeChunkOrderer({ onGap: vi.fn() });
+
+    orderer.push(chunk(0));
+    orderer.push(chunk(2));
+
+    expect(orderer.push(chunk(0))).toStrictEqual([]);
+    expect(orderer.push(chunk(2))).toStrictEqual([]);
+    expect(orderer.push(chunk(1))).toStrictEqual([chunk(1), chunk(2)]);
+  });
+
+  it("should skip a missing chunk when the window is full", () => {
+    const onGap = vi.fn();
+    const orderer = createNativeChunkOrderer({ windowSize: 2, onGap });
+
+    orderer.push(chunk(0));
+    orderer.push(chunk(2));
+    orderer.push(chunk(3));
+
+    expect(orderer.push(chunk(4))).toStrictEqual([
+      chunk(2),
+      chunk(3),
+      chunk(4),
+    ]);
+    expect(onGap).toHaveBeenCalledWith({ fromIdx: 1, toIdx: 1 });
+
+    // the late chunk is dropped:
+    expect(orderer.push(chunk(1))).toStrictEqual([]);
+  });
+
+  it("should release buffered chunks and report gaps on flush", () => {
+    const onGap = vi.fn();
+    const orderer = createNativeChunkOrderer({ onGap });
+
+    orderer.push(chunk(0));
+    orderer.push(chunk(3));
+    orderer.push(chunk(6));
+
+    expect(orderer.flush()).toStrictEqual([chunk(3), chunk(6)]);
+    expect(onGap).toHaveBeenNthCalledWith(1, { fromIdx: 1, toIdx: 2 });
+    expect(onGap).toHaveBeenNthCalledWith(2, { fromIdx: 4, toIdx: 5 });
+  });
+});
@@ -0,0 +1,92 @@
+export type NativeChunkOrderer<T extends { idx: number }> = {
+  /**
+   * Adds a chunk to the reorder buffer.
+   * @returns The chunks that can be emitted in `idx` order
+   */
+  push(chunk: T): T[];
+
+  /**
+   * Releases all buffered chunks in `idx` order at the end of the stream.
+   */
+  flush(): T[];
+};
+
+/**
+ * Creates the reorder buffer for native stream chunks. Chunks are emitted in
+ * `idx` order starting at idx 0. Streams that do not contain idx 0 start at
+ * the smallest buffered idx once more than `windowSize` chunks are buffered
+ * or the stream ends. Duplicates of already buffered or emitted chunks are
+ * dropped. When more than `windowSize` chunks wait for a missing chunk, or
+ * when the stream ends, the missing chunks are skipped and reported as a gap.
+ */
+export function createNativeChunkOrderer<T extends { idx: number }>({
+  windowSize = 8,
+  onGap,
+}: {
+  windowSize?: number;
+  onGap: (gap: { fromIdx: number; toIdx: number }) => void;
+}): NativeChunkOrderer<T> {
+  const buffer = new Map<number, T>();
+  let nextIdx: number | undefined;
+
+  const release = (): T[] => {
+    const released: T[] = [];
+    while (nextIdx != null && buffer.has(nextIdx)) {
+      released.push(buffer.get(nextIdx)!);
+      buffer.delete(nextIdx);
+      nextIdx++;
+    }
+    return released;
+  };
+
+  const smallestBufferedIdx = () => Math.min(...Array.from(buffer.keys()));
+
+  const skipToBufferedChunk = () => {
+    const smallestIdx = smallestBufferedIdx();
+    onGap({ fromIdx: nextIdx!, toIdx: smallestIdx - 1 });
+    nextIdx = smallestIdx;
+  };
+
+  return {
+    push(chunk) {
+      if ((nextIdx != null && chunk.idx < nextIdx) || buffer.has(chunk.idx)) {
+        return [];
+      }
+
+      buffer.set(chunk.idx, chunk);
+
+      // the first chunks can arrive out of order, so a stream without idx 0
+      // only starts when the window is full:
+      if (nextIdx == null) {
+        if (buffer.has(0)) {
+          nextIdx = 0;
+        } else if (buffer.size > windowSize) {
+          nextIdx = smallestBufferedIdx();
+        } else {
+          return [];
+        }
+      }
+
+      const released = release();
+      if (buffer.size > windowSize) {
+        skipToBufferedChunk();
+        released.push(...release());
+      }
+
+      return released;
+    },
+
+    flush() {
+      if (nextIdx == null && buffer.size > 0) {
+        nextIdx = smallestBufferedIdx();
+      }
+
+      const released = release();
+      while (buffer.size > 0) {
+        skipToBufferedChunk();
+        released.push(...release());
+      }
+      return released;
+    },
+  };
+}
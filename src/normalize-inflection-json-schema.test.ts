@@ -0,0 +1,168 @@
+import { expect, describe, it } from "vitest";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { normalizeInflectionJsonSchema } from "./normalize-inflection-json-schema";
+
+describe("normalizeInflectionJsonSchema", () => {
+  it("should keep supported keywords", () => {
+    const schema = {
+      type: "object",
+      properties: {
+        location: { type: "string", description: "The city", minLength: 1 },
+        unit: { type: "string", enum: ["celsius", "fahrenheit"] },
+      },
+      required: ["location"],
+      additionalProperties: false,
+    };
+
+    expect(normalizeInflectionJsonSchema(schema)).toStrictEqual({
+      schema,
+      removedKeywords: [],
+    });
+  });
+
+  it("should inline references generated by zod-to-json-schema", () => {
+    const address = z.object({ city: z.string() });
+    const schema = zodToJsonSchema(
+      z.object({ from: address, to: address.describe("The destination") }),
+      { definitions: { address } },
+    );
+
+    expect(normalizeInflectionJsonSchema(schema)).toStrictEqual({
+      schema: {
+        type: "object",
+        properties: {
+          from: {
+            type: "object",
+            properties: { city: { type: "string" } },
+            required: ["city"],
+            additionalProperties: false,
+          },
+          to: {
+            type: "object",
+            properties: { city: { type: "string" } },
+            required: ["city"],
+            additionalProperties: false,
+            description: "The destination",
+          },
+        },
+        required: ["from", "to"],
+        additionalProperties: false,
+      },
+      removedKeywords: [],
+    });
+  });
+
+  it("should replace recursive references with an unconstrained schema", () => {
+    const result = normalizeInflectionJsonSchema({
+      type: "object",
+      properties: { node: { $ref: "#/definitions/node" } },
+      definitions: {
+        node: {
+          type: "object",
+          properties: { child: { $ref: "#/definitions/node" } },
+        },
+      },
+    });
+
+    expect(result).toStrictEqual({
+      schema: {
+        type: "object",
+        properties: {
+          node: { type: "object", properties: { child: {} } },
+        },
+        required: undefined,
+      },
+      removedKeywords: ["properties.node.properties.child.$ref"],
+    });
+  });
+
+  it("should flatten nullable, enum and primitive unions", () => {
+    const result = normalizeInflectionJsonSchema({
+      type: "object",
+      properties: {
+        note: { anyOf: [{ type: "string" }, { type: "null" }] },
+        unit: {
+          anyOf: [
+            { type: "string", const: "celsius" },
+            { type: "string", const: "fahrenheit" },
+          ],
+        },
+        id: { oneOf: [{ type: "string" }, { type: "number" }] },
+      },
+    });
+
+    expect(result).toStrictEqual({
+      schema: {
+        type: "object",
+        properties: {
+          note: { type: ["string", "null"] },
+          unit: { type: "string", enum: ["celsius", "fahrenheit"] },
+          id: { type: ["string", "number"] },
+        },
+        required: undefined,
+      },
+      removedKeywords: [],
+    });
+  });
+
+  it("should merge allOf object schemas", () => {
+    expect(
+      normalizeInflectionJsonSchema({
+        allOf: [
+          {
+            type: "object",
+            properties: { a: { type: "string" } },
+            required: ["a"],
+          },
+          {
+            type: "object",
+            properties: { b: { type: "number" } },
+            required: ["b"],
+          },
+        ],
+      }).schema,
+    ).toStrictEqual({
+      type: "object",
+      properties: { a: { type: "string" }, b: { type: "number" } },
+      required: ["a", "b"],
+    });
+  });
+
+  it("should remove unsupported keywords and report their paths", () => {
+    const result = normalizeInflectionJsonSchema({
+      $schema: "http://json-schema.org/draft-07/schema#",
+      type: "object",
+      properties: {
+        name: { type: "string", not: { const: "" } },
+        shape: {
+          anyOf: [
+            { type: "object", properties: { radius: { type: "number" } } },
+            { type: "object", properties: { side: { type: "number" } } },
+          ],
+          description: "A circle or a square",
+        },
+        point: { type: "array", items: [{ type: "number" }] },
+      },
+      patternProperties: { "^x-": { type: "string" } },
+    });
+
+    expect(result).toStrictEqual({
+      schema: {
+        type: "object",
+        properties: {
+          name: { type: "string" },
+          shape: { description: "A circle or a square" },
+          point: { type: "array" },
+        },
+        required: undefined,
+      },
+      removedKeywords: [
+        "properties.name.not",
+        "properties.shape.anyOf",
+        "properties.point.items",
+        "patternProperties",
+      ],
+    });
+  });
+});
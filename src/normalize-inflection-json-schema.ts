@@ -0,0 +1,311 @@
+import { InflectionFunctionParameters } from "./inflection-chat-settings";
+
+type JsonSchemaObject = Record<string, unknown>;
+
+// keywords that Inflection accepts in tool parameters:
+const supportedKeywords = new Set([
+  "type",
+  "title",
+  "description",
+  "default",
+  "enum",
+  "properties",
+  "required",
+  "additionalProperties",
+  "items",
+  "minimum",
+  "maximum",
+  "minLength",
+  "maxLength",
+  "pattern",
+  "format",
+  "minItems",
+  "maxItems",
+]);
+
+// keywords without constraints that are removed without a warning:
+const annotationKeywords = new Set([
+  "$schema",
+  "$id",
+  "$comment",
+  "$defs",
+  "definitions",
+  "examples",
+]);
+
+export type NormalizedInflectionJsonSchema = {
+  schema: InflectionFunctionParameters;
+
+  /**
+   * Paths of the keywords that were removed because Inflection does not
+   * support them, e.g. `properties.name.not`.
+   */
+  removedKeywords: string[];
+};
+
+/**
+ * Normalizes the JSON schema of tool parameters for Inflection: local `$ref`s
+ * (e.g. to the `$defs` of zod-to-json-schema) are inlined, `const` is
+ * converted to `enum`, `anyOf`/`oneOf` of primitive types, enums or a type
+ * and `null` are flattened, `allOf` of objects is merged, and unsupported
+ * keywords are removed. Recursive references cannot be inlined and are
+ * replaced with an unconstrained schema.
+ */
+export function normalizeInflectionJsonSchema(
+  schema: unknown,
+): NormalizedInflectionJsonSchema {
+  const root = isSchemaObject(schema) ? schema : {};
+  const removedKeywords: string[] = [];
+
+  const remove = (path: string, keyword: string) => {
+    removedKeywords.push(joinPath(path, keyword));
+  };
+
+  // resolves local JSON pointers, e.g. `#/$defs/address` or the
+  // `#/properties/from` references of zod-to-json-schema:
+  const resolveRef = (ref: string): unknown => {
+    if (ref !== "#" && !ref.startsWith("#/")) {
+      return undefined;
+    }
+
+    let target: unknown = root;
+    for (const segment of ref.split("/").slice(1)) {
+      if (!isSchemaObject(target)) {
+        return undefined;
+      }
+
+      target =
+        target[
+          decodeURIComponent(segment).replace(/~1/g, "/").replace(/~0/g, "~")
+        ];
+    }
+
+    return target;
+  };
+
+  const normalize = (
+    node: unknown,
+    path: string,
+    refs: string[],
+  ): JsonSchemaObject => {
+    if (!isSchemaObject(node)) {
+      if (node === false) {
+        remove(path, "false");
+      }
+      return {};
+    }
+
+    const { $ref, ...rest } = node;
+    if (typeof $ref === "string") {
+      const target = resolveRef($ref);
+
+      if (target === undefined || refs.includes($ref)) {
+        remove(path, "$ref");
+        return normalize(rest, path, refs);
+      }
+
+      // keywords next to $ref, e.g. a description, take precedence:
+      return normalize(
+        { ...(isSchemaObject(target) ? target : {}), ...rest },
+        path,
+        [...refs, $ref],
+      );
+    }
+
+    const result: JsonSchemaObject = {};
+
+    for (const [keyword, value] of Object.entries(node)) {
+      switch (keyword) {
+        case "properties": {
+          if (!isSchemaObject(value)) {
+            remove(path, keyword);
+            break;
+          }
+
+          result.properties = Object.fromEntries(
+            Object.entries(value).map(([name, property]) => [
+              name,
+              normalize(property, joinPath(path, `properties.${name}`), refs),
+            ]),
+          );
+          break;
+        }
+
+        case "additionalProperties": {
+          result.additionalProperties =
+            typeof value === "boolean"
+              ? value
+              : normalize(value, joinPath(path, keyword), refs);
+          break;
+        }
+
+        case "items": {
+          if (Array.isArray(value)) {
+            remove(path, keyword);
+            break;
+          }
+
+          result.items = normalize(value, joinPath(path, keyword), refs);
+          break;
+        }
+
+        case "const": {
+          result.enum = [value];
+          break;
+        }
+
+        case "anyOf":
+        case "oneOf": {
+          const options = Array.isArray(value)
+            ? value.map((option, index) =>
+                normalize(option, joinPath(path, `${keyword}[${index}]`), refs),
+              )
+            : [];
+
+          const flattened = flattenUnion(options);
+          if (flattened == null) {
+            remove(path, keyword);
+            break;
+          }
+
+          Object.assign(result, flattened);
+          break;
+        }
+
+        case "allOf": {
+          const options = Array.isArray(value)
+            ? value.map((option, index) =>
+                normalize(option, joinPath(path, `${keyword}[${index}]`), refs),
+              )
+            : [];
+
+          const merged = mergeObjects(options);
+          if (merged == null) {
+            remove(path, keyword);
+            break;
+          }
+
+          Object.assign(result, merged);
+          break;
+        }
+
+        default: {
+          if (supportedKeywords.has(keyword)) {
+            result[keyword] = value;
+          } else if (!annotationKeywords.has(keyword)) {
+            remove(path, keyword);
+          }
+        }
+      }
+    }
+
+    return result;
+  };
+
+  const normalized = normalize(root, "", []);
+
+  return {
+    schema: {
+      ...normalized,
+      type: "object",
+      properties: isSchemaObject(normalized.properties)
+        ? normalized.properties
+        : {},
+      required: Array.isArray(normalized.required)
+        ? normalized.required.filter(
+            (name): name is string => typeof name === "string",
+          )
+        : undefined,
+    },
+    removedKeywords,
+  };
+}
+
+/**
+ * Flattens the options of `anyOf`/`oneOf` into a single schema.
+ * @returns The flattened schema, or undefined when the options cannot be
+ * expressed without a union
+ */
+function flattenUnion(
+  options: JsonSchemaObject[],
+): JsonSchemaObject | undefined {
+  if (options.length === 1) {
+    return options[0];
+  }
+
+  // a nullable schema, e.g. from zod's `.nullable()`:
+  const nonNullOptions = options.filter((option) => option.type !== "null");
+  if (
+    nonNullOptions.length === 1 &&
+    options.length === 2 &&
+    typeof nonNullOptions[0].type === "string"
+  ) {
+    return { ...nonNullOptions[0], type: [nonNullOptions[0].type, "null"] };
+  }
+
+  // enums, e.g. from zod's `z.union([z.literal("a"), z.literal("b")])`:
+  if (options.every((option) => Array.isArray(option.enum))) {
+    const types = new Set(options.map((option) => option.type));
+    return {
+      ...(types.size === 1 && typeof options[0].type === "string"
+        ? { type: options[0].type }
+        : {}),
+      enum: options.flatMap((option) => option.enum as unknown[]),
+    };
+  }
+
+  // primitive types, e.g. from `z.union([z.string(), z.number()])`:
+  if (
+    options.every(
+      (option) =>
+        typeof option.type === "string" &&
+        Object.keys(option).every(
+          (keyword) => keyword === "type" || keyword === "description",
+        ),
+    )
+  ) {
+    return {
+      type: Array.from(new Set(options.map((option) => option.type))),
+    };
+  }
+
+  return undefined;
+}
+
+/**
+ * Merges the object schemas of `allOf`.
+ * @returns The merged schema, or undefined when an option is not an object
+ */
+function mergeObjects(
+  options: JsonSchemaObject[],
+): JsonSchemaObject | undefined {
+  if (
+    !options.every(
+      (option) => option.type === "object" || isSchemaObject(option.properties),
+    )
+  ) {
+    return undefined;
+  }
+
+  const required = options.flatMap((option) =>
+    Array.isArray(option.required) ? option.required : [],
+  );
+
+  return {
+    ...Object.assign({}, ...options),
+    type: "object",
+    properties: Object.assign(
+      {},
+      ...options.map((option) => option.properties ?? {}),
+    ),
+    ...(required.length > 0 ? { required: Array.from(new Set(required)) } : {}),
+  };
+}
+
+function isSchemaObject(value: unknown): value is JsonSchemaObject {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function joinPath(path: string, keyword: string): string {
+  return path === "" ? keyword : `${path}.${keyword}`;
+}
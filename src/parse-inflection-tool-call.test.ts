@@ -0,0 +1,127 @@
+import { expect, describe, it, vi } from "vitest";
+import { LanguageModelV1FunctionTool } from "@ai-sdk/provider";
+import { parseInflectionToolCall } from "./parse-inflection-tool-call";
+import { InvalidToolArgumentsError } from "./inflection-error";
+
+const tools: LanguageModelV1FunctionTool[] = [
+  {
+    type: "function",
+    name: "get_weather",
+    parameters: {
+      type: "object",
+      properties: { location: { type: "string" } },
+      required: ["location"],
+    },
+  },
+];
+
+const toolCall = (args: string) => ({
+  toolCallId: "call-1",
+  toolName: "get_weather",
+  args,
+});
+
+describe("parseInflectionToolCall", () => {
+  it("should parse valid arguments", async () => {
+    expect(
+      await parseInflectionToolCall({
+        toolCall: toolCall('{"location":"Paris"}'),
+        tools,
+        repairToolCall: undefined,
+      }),
+    ).toStrictEqual({
+      toolCallType: "function",
+      toolCallId: "call-1",
+      toolName: "get_weather",
+      args: '{"location":"Paris"}',
+    });
+  });
+
+  it("should throw InvalidToolArgumentsError for malformed JSON", async () => {
+    await expect(
+      parseInflectionToolCall({
+        toolCall: toolCall('{"location":"Paris",}'),
+        tools,
+        repairToolCall: undefined,
+      }),
+    ).rejects.toSatisfy(
+      (error) =>
+        InvalidToolArgumentsError.isInstance(error) &&
+        error.toolCallId === "call-1" &&
+        error.toolArgs === '{"location":"Paris",}',
+    );
+  });
+
+  it("should throw InvalidToolArgumentsError for schema mismatches", async () => {
+    await expect(
+      parseInflectionToolCall({
+        toolCall: toolCall('{"city":"Paris"}'),
+        tools,
+        repairToolCall: undefined,
+      }),
+    ).rejects.toThrow(
+      "Invalid arguments for tool get_weather: location is required",
+    );
+  });
+
+  it("should only parse calls to unknown tools", async () => {
+    expect(
+      await parseInflectionToolCall({
+        toolCall: { ...toolCall('{"x":1}'), toolName: "other" },
+        tools,
+        repairToolCall: undefined,
+      }),
+    ).toMatchObject({ toolName: "other", args: '{"x":1}' });
+  });
+
+  it("should use the repaired arguments", async () => {
+    const repairToolCall = vi.fn(({ toolCall }) => ({
+      args: toolCall.args.replace(/,\s*}/, "}"),
+    }));
+
+    expect(
+      await parseInflectionToolCall({
+        toolCall: toolCall('{"location":"Paris",}'),
+        tools,
+        repairToolCall,
+      }),
+    ).toMatchObject({ args: '{"location":"Paris"}' });
+    expect(repairToolCall).toHaveBeenCalledWith({
+      toolCall: toolCall('{"location":"Paris",}'),
+      tool: tools[0],
+      error: expect.any(InvalidToolArgumentsError),
+    });
+  });
+
+  it("should throw when the call cannot be repaired", async () => {
+    await expect(
+      parseInflectionToolCall({
+        toolCall: toolCall("{"),
+        tools,
+        repairToolCall: async () => null,
+      }),
+    ).rejects.toThrow(InvalidToolArgumentsError);
+
+    await expect(
+      parseInflectionToolCall({
+        toolCall: toolCall("{"),
+        tools,
+        repairToolCall: async () => ({ args: "{}" }),
+      }),
+    ).rejects.toThrow("location is required");
+
+    await expect(
+      parseInflectionToolCall({
+        toolCall: toolCall("{"),
+        tools,
+        repairToolCall: async () => {
+          throw new Error("model unavailable");
+        },
+      }),
+    ).rejects.toSatisfy(
+      (error) =>
+        InvalidToolArgumentsError.isInstance(error) &&
+        (error.cause as Error).message === "model unavailable",
+    );
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  LanguageModelV1FunctionTool,
+  LanguageModelV1FunctionToolCall,
+} from "@ai-sdk/provider";
+import { InvalidToolArgumentsError } from "./inflection-error";
+import { validateJsonSchema } from "./validate-json-schema";
+
+export type InflectionRawToolCall = {
+  toolCallId: string;
+  toolName: string;
+  /** The arguments as JSON text, as generated by the model. */
+  args: string;
+};
+
+/**
+ * Repairs a tool call whose arguments are not valid JSON or do not match the
+ * JSON schema of the tool, e.g. by fixing trailing commas or single quotes,
+ * or by asking the model again.
+ * @returns The repaired arguments as JSON text, or null when the call cannot
+ * be repaired
+ */
+export type InflectionRepairToolCallFunction = (options: {
+  toolCall: InflectionRawToolCall;
+  tool: LanguageModelV1FunctionTool | undefined;
+  error: InvalidToolArgumentsError;
+}) => PromiseLike<{ args: string } | null> | { args: string } | null;
+
+/**
+ * Parses the arguments of a tool call and validates them against the JSON
+ * schema of the matching tool. Invalid calls are passed to `repairToolCall`.
+ * Calls to unknown tools are only parsed.
+ * @throws {InvalidToolArgumentsError} If the call is invalid and cannot be
+ * repaired
+ */
+export async function parseInflectionToolCall({
+  toolCall,
+  tools,
+  repairToolCall,
+}: {
+  toolCall: InflectionRawToolCall;
+  tools: LanguageModelV1FunctionTool[] | undefined;
+  repairToolCall: InflectionRepairToolCallFunction | undefined;
+}): Promise<LanguageModelV1FunctionToolCall> {
+  const tool = tools?.find(({ name }) => name === toolCall.toolName);
+
+  const error = validateToolCall(toolCall, tool);
+  if (error == null) {
+    return createToolCall(toolCall);
+  }
+
+  if (repairToolCall == null) {
+    throw error;
+  }
+
+  let repaired: { args: string } | null;
+  try {
+    repaired = await repairToolCall({ toolCall, tool, error });
+  } catch (repairError) {
+    throw createError(toolCall, "Tool call repair failed", repairError);
+  }
+
+  if (repaired == null) {
+    throw error;
+  }
+
+  const repairedToolCall = { ...toolCall, args: repaired.args };
+  const repairedError = validateToolCall(repairedToolCall, tool);
+  if (repairedError != null) {
+    throw repairedError;
+  }
+
+  return createToolCall(repairedToolCall);
+}
+
+function validateToolCall(
+  toolCall: InflectionRawToolCall,
+  tool: LanguageModelV1FunctionTool | undefined,
+): InvalidToolArgumentsError | undefined {
+  let args: unknown;
+  try {
+    args = JSON.parse(toolCall.args);
+  } catch (error) {
+    return createError(
+      toolCall,
+      error instanceof Error ? error.message : "Invalid JSON",
+      error,
+    );
+  }
+
+  if (tool == null) {
+    return undefined;
+  }
+
+  const errors = validateJsonSchema(args, tool.parameters);
+  return errors.length > 0
+    ? createError(toolCall, errors.join(", "))
+    : undefined;
+}
+
+function createToolCall(
+  toolCall: InflectionRawToolCall,
+): LanguageModelV1FunctionToolCall {
+  return {
+    toolCallType: "function",
+    toolCallId: toolCall.toolCallId,
+    toolName: toolCall.toolName,
+    // the AI SDK expects the arguments as JSON text:
+    args: toolCall.args,
+  };
+}
+
+function createError(
+  toolCall: InflectionRawToolCall,
+  message: string,
+  cause?: unknown,
+): InvalidToolArgumentsError {
+  return new InvalidToolArgumentsError({
+    toolCallId: toolCall.toolCallId,
+    toolName: toolCall.toolName,
+    toolArgs: toolCall.args,
+    message,
+    cause,
+  });
+}
@@ -0,0 +1,43 @@
+import { expect, describe, it } from "vitest";
+import { parsePartialJson } from "./parse-partial-json";
+
+describe("parsePartialJson", () => {
+  it("should parse complete JSON", () => {
+    expect(parsePartialJson('{"a":[1,2]}')).toStrictEqual({
+      value: { a: [1, 2] },
+      complete: true,
+    });
+  });
+
+  it("should close truncated strings, objects and arrays", () => {
+    expect(parsePartialJson('{"name":"Las')).toStrictEqual({
+      value: { name: "Las" },
+      complete: false,
+    });
+    expect(parsePartialJson('{"steps":["Boil", "Br')).toStrictEqual({
+      value: { steps: ["Boil", "Br"] },
+      complete: false,
+    });
+    expect(parsePartialJson('[{"a":1},{"b":{"c":')).toStrictEqual({
+      value: [{ a: 1 }, { b: {} }],
+      complete: false,
+    });
+  });
+
+  it("should leave out incomplete keys and literals", () => {
+    expect(parsePartialJson('{"done":true,"na').value).toStrictEqual({
+      done: true,
+    });
+    expect(parsePartialJson('{"done":tr').value).toStrictEqual({});
+    expect(parsePartialJson('{"count":1.').value).toStrictEqual({ count: 1 });
+  });
+
+  it("should drop cut-off escape sequences", () => {
+    expect(parsePartialJson('"line\\nbreak\\u00').value).toBe("line\nbreak");
+  });
+
+  it("should return undefined for text without a value", () => {
+    expect(parsePartialJson("  ").value).toBeUndefined();
+    expect(parsePartialJson("This is not JSON").value).toBeUndefined();
+  });
+});
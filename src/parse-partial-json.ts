@@ -0,0 +1,209 @@
+export type PartialJsonParseResult = {
+  /** The parsed value, or undefined when the text contains no value yet. */
+  value: unknown;
+  /** Whether the text is complete, valid JSON. */
+  complete: boolean;
+};
+
+/**
+ * Parses the JSON text that has been streamed so far. Truncated strings are
+ * closed, truncated objects and arrays keep their complete entries, and
+ * incomplete keys and literals (e.g. `tru`) are left out.
+ */
+export function parsePartialJson(text: string): PartialJsonParseResult {
+  try {
+    return { value: JSON.parse(text), complete: true };
+  } catch {
+    // fall through to the tolerant parser
+  }
+
+  try {
+    return { value: parsePartialValue(text), complete: false };
+  } catch {
+    return { value: undefined, complete: false };
+  }
+}
+
+// a parsed value; `undefined` when the text ends before the value starts or
+// inside a value that cannot be represented partially:
+type ParsedValue = { value: unknown } | undefined;
+
+function parsePartialValue(text: string): unknown {
+  let position = 0;
+
+  function parseValue(): ParsedValue {
+    skipWhitespace();
+
+    switch (text[position]) {
+      case undefined:
+        return undefined;
+      case "{":
+        return parseObject();
+      case "[":
+        return parseArray();
+      case '"':
+        return { value: parseString().value };
+      default:
+        return parseLiteral();
+    }
+  }
+
+  function parseObject(): ParsedValue {
+    const object: Record<string, unknown> = {};
+    position++; // {
+
+    for (;;) {
+      skipWhitespace();
+      const char = text[position];
+
+      if (char === undefined) {
+        return { value: object };
+      }
+
+      if (char === "}") {
+        position++;
+        return { value: object };
+      }
+
+      if (char === ",") {
+        position++;
+        continue;
+      }
+
+      if (char !== '"') {
+        throw new Error(`Unexpected character ${char} in object`);
+      }
+
+      const key = parseString();
+      if (!key.complete) {
+        return { value: object };
+      }
+
+      skipWhitespace();
+      if (text[position] !== ":") {
+        return { value: object };
+      }
+      position++;
+
+      const value = parseValue();
+      if (value === undefined) {
+        return { value: object };
+      }
+
+      object[key.value] = value.value;
+    }
+  }
+
+  function parseArray(): ParsedValue {
+    const array: unknown[] = [];
+    position++; // [
+
+    for (;;) {
+      skipWhitespace();
+      const char = text[position];
+
+      if (char === undefined) {
+        return { value: array };
+      }
+
+      if (char === "]") {
+        position++;
+        return { value: array };
+      }
+
+      if (char === ",") {
+        position++;
+        continue;
+      }
+
+      const value = parseValue();
+      if (value === undefined) {
+        return { value: array };
+      }
+
+      array.push(value.value);
+    }
+  }
+
+  function parseString(): { value: string; complete: boolean } {
+    let value = "";
+    position++; // opening quote
+
+    while (position < text.length) {
+      const char = text[position];
+
+      if (char === '"') {
+        position++;
+        return { value, complete: true };
+      }
+
+      if (char === "\\") {
+        const escape = text.slice(position, position + 6);
+        const length = escape[1] === "u" ? 6 : 2;
+
+        // drop escape sequences that are cut off:
+        if (escape.length < length) {
+          break;
+        }
+
+        value += JSON.parse(`"${escape.slice(0, length)}"`);
+        position += length;
+        continue;
+      }
+
+      value += char;
+      position++;
+    }
+
+    position = text.length;
+    return { value, complete: false };
+  }
+
+  function parseLiteral(): ParsedValue {
+    const rest = text.slice(position);
+
+    for (const [literal, value] of [
+      ["true", true],
+      ["false", false],
+      ["null", null],
+    ] as const) {
+      if (rest.startsWith(literal)) {
+        position += literal.length;
+        return { value };
+      }
+
+      if (literal.startsWith(rest)) {
+        position = text.length;
+        return undefined;
+      }
+    }
+
+    const match = /^-?(?:\d+(?:\.\d+)?(?:[eE][+-]?\d+)?)?/.exec(rest)![0];
+    if (match === "" || match === "-") {
+      if (match.length === rest.length) {
+        position = text.length;
+        return undefined;
+      }
+
+      throw new Error(`Unexpected character ${rest[0]}`);
+    }
+
+    position += match.length;
+
+    // skip a cut-off fraction or exponent, e.g. `1.` or `1e`:
+    const trailing = /^(?:\.|[eE][+-]?)$/.exec(text.slice(position));
+    if (trailing != null) {
+      position = text.length;
+    }
+
+    return { value: Number(match) };
+  }
+
+  function skipWhitespace() {
+    while (/\s/.test(text[position] ?? "")) {
+      position++;
+    }
+  }
+
+  return parseValue()?.value;
+}
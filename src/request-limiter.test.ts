@@ -0,0 +1,150 @@
+import { expect, describe, it, vi, afterEach } from "vitest";
+import { InvalidArgumentError } from "@ai-sdk/provider";
+import {
+  convertArrayToReadableStream,
+  convertReadableStreamToArray,
+} from "@ai-sdk/provider-utils/test";
+import { createRequestLimiter, releaseOnClose } from "./request-limiter";
+import { InflectionQueueTimeoutError } from "./inflection-error";
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe("maxConcurrentRequests", () => {
+  it("should queue requests until a slot is released", async () => {
+    const limiter = createRequestLimiter({ maxConcurrentRequests: 1 });
+
+    const releaseFirst = await limiter.acquire();
+
+    let secondAcquired = false;
+    const second = limiter.acquire().then((release) => {
+      secondAcquired = true;
+      return release;
+    });
+
+    await Promise.resolve();
+    expect(secondAcquired).toBe(false);
+
+    releaseFirst();
+    const releaseSecond = await second;
+    expect(secondAcquired).toBe(true);
+    releaseSecond();
+  });
+
+  it("should ignore repeated releases", async () => {
+    const limiter = createRequestLimiter({ maxConcurrentRequests: 1 });
+
+    const releaseFirst = await limiter.acquire();
+    releaseFirst();
+    releaseFirst();
+
+    await limiter.acquire();
+
+    let thirdAcquired = false;
+    limiter.acquire().then(() => {
+      thirdAcquired = true;
+    });
+
+    await Promise.resolve();
+    expect(thirdAcquired).toBe(false);
+  });
+});
+
+describe("requestsPerMinute", () => {
+  it("should delay requests once the bucket is empty", async () => {
+    vi.useFakeTimers();
+    const limiter = createRequestLimiter({ requestsPerMinute: 2 });
+
+    (await limiter.acquire())();
+    (await limiter.acquire())();
+
+    let thirdAcquired = false;
+    const third = limiter.acquire().then(() => {
+      thirdAcquired = true;
+    });
+
+    await vi.advanceTimersByTimeAsync(29000);
+    expect(thirdAcquired).toBe(false);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await third;
+    expect(thirdAcquired).toBe(true);
+  });
+});
+
+describe("queued calls", () => {
+  it("should reject with the abort reason when aborted", async () => {
+    const limiter = createRequestLimiter({ maxConcurrentRequests: 1 });
+    await limiter.acquire();
+
+    const abortController = new AbortController();
+    const queued = limiter.acquire({ abortSignal: abortController.signal });
+    abortController.abort();
+
+    await expect(queued).rejects.toThrow(
+      expect.objectContaining({ name: "AbortError" }),
+    );
+  });
+
+  it("should reject with InflectionQueueTimeoutError after queueTimeoutMs", async () => {
+    vi.useFakeTimers();
+    const limiter = createRequestLimiter({
+      maxConcurrentRequests: 1,
+      queueTimeoutMs: 500,
+    });
+    const release = await limiter.acquire();
+
+    const queued = limiter.acquire();
+    const assertion = expect(queued).rejects.toSatisfy(
+      InflectionQueueTimeoutError.isInstance,
+    );
+    await vi.advanceTimersByTimeAsync(500);
+    await assertion;
+
+    // the timed out call must not take the slot:
+    release();
+    await limiter.acquire();
+  });
+});
+
+describe("settings", () => {
+  it.each([
+    { requestsPerMinute: 0 },
+    { requestsPerMinute: -1 },
+    { requestsPerMinute: 0.5 },
+    { maxConcurrentRequests: 0 },
+    { maxConcurrentRequests: -2 },
+    { maxConcurrentRequests: 0.5 },
+    { requestsPerMinute: Number.NaN },
+  ])("should reject limits below 1 %o", (settings) => {
+    expect(() => createRequestLimiter(settings)).toThrow(InvalidArgumentError);
+  });
+});
+
+describe("releaseOnClose", () => {
+  it("should release after the stream has been read", async () => {
+    const release = vi.fn();
+    const stream = releaseOnClose(
+      convertArrayToReadableStream(["a", "b"]),
+      release,
+    );
+
+    expect(await convertReadableStreamToArray(stream)).toStrictEqual([
+      "a",
+      "b",
+    ]);
+    expect(release).toHaveBeenCalledTimes(1);
+  });
+
+  it("should release when the stream is cancelled", async () => {
+    const release = vi.fn();
+    const stream = releaseOnClose(
+      convertArrayToReadableStream(["a", "b"]),
+      release,
+    );
+
+    await stream.cancel();
+    expect(release).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,213 @@
+import { InvalidArgumentError } from "@ai-sdk/provider";
+import { InflectionQueueTimeoutError } from "./inflection-error";
+
+export interface InflectionRateLimitSettings {
+  /**
+   * Maximum number of requests started per minute (token bucket). Bursts of up
+   * to this many requests are allowed when the bucket is full.
+   */
+  requestsPerMinute?: number;
+
+  /**
+   * Maximum number of requests in flight at the same time. Streaming requests
+   * count until their stream is closed.
+   */
+  maxConcurrentRequests?: number;
+
+  /**
+   * Maximum time in milliseconds a call waits in the queue before it fails
+   * with an `InflectionQueueTimeoutError`. Waits indefinitely by default.
+   */
+  queueTimeoutMs?: number;
+}
+
+export type RequestLimiter = {
+  /**
+   * Waits for a free slot and a rate limit token.
+   * @returns A function that releases the slot again
+   */
+  acquire(options?: { abortSignal?: AbortSignal }): Promise<() => void>;
+};
+
+type Waiter = {
+  grant: (release: () => void) => void;
+};
+
+/**
+ * Creates a FIFO limiter that combines a requests-per-minute token bucket with
+ * a concurrency semaphore. One limiter is shared by all models of a provider.
+ * @throws {InvalidArgumentError} If a limit is less than 1
+ */
+export function createRequestLimiter({
+  requestsPerMinute,
+  maxConcurrentRequests,
+  queueTimeoutMs,
+}: InflectionRateLimitSettings): RequestLimiter {
+  validateLimit("requestsPerMinute", requestsPerMinute);
+  validateLimit("maxConcurrentRequests", maxConcurrentRequests);
+
+  const queue: Waiter[] = [];
+  let active = 0;
+  let tokens = requestsPerMinute ?? 0;
+  let lastRefill = Date.now();
+  let refillTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const refill = () => {
+    if (requestsPerMinute == null) {
+      return;
+    }
+
+    const now = Date.now();
+    tokens = Math.min(
+      requestsPerMinute,
+      tokens + ((now - lastRefill) * requestsPerMinute) / 60000,
+    );
+    lastRefill = now;
+  };
+
+  const release = () => {
+    active--;
+    drain();
+  };
+
+  const drain = () => {
+    while (queue.length > 0) {
+      if (maxConcurrentRequests != null && active >= maxConcurrentRequests) {
+        return;
+      }
+
+      if (requestsPerMinute != null) {
+        refill();
+
+        if (tokens < 1) {
+          if (refillTimer == null) {
+            refillTimer = setTimeout(
+              () => {
+                refillTimer = undefined;
+                drain();
+              },
+              Math.ceil(((1 - tokens) * 60000) / requestsPerMinute),
+            );
+
+            // the refill must not keep the process alive, e.g. when the
+            // waiting calls have been aborted:
+            unrefTimer(refillTimer);
+          }
+          return;
+        }
+
+        tokens--;
+      }
+
+      active++;
+
+      let released = false;
+      queue.shift()!.grant(() => {
+        if (!released) {
+          released = true;
+          release();
+        }
+      });
+    }
+  };
+
+  return {
+    acquire({ abortSignal } = {}) {
+      return new Promise((resolve, reject) => {
+        if (abortSignal?.aborted) {
+          reject(abortSignal.reason);
+          return;
+        }
+
+        let timeout: ReturnType<typeof setTimeout> | undefined;
+
+        const cleanup = () => {
+          clearTimeout(timeout);
+          abortSignal?.removeEventListener("abort", onAbort);
+        };
+
+        const leaveQueue = (error: unknown) => {
+          const index = queue.indexOf(waiter);
+          if (index !== -1) {
+            queue.splice(index, 1);
+          }
+          cleanup();
+          reject(error);
+        };
+
+        const onAbort = () => leaveQueue(abortSignal!.reason);
+
+        const waiter: Waiter = {
+          grant: (releaseSlot) => {
+            cleanup();
+            resolve(releaseSlot);
+          },
+        };
+
+        if (queueTimeoutMs != null) {
+          timeout = setTimeout(
+            () =>
+              leaveQueue(
+                new InflectionQueueTimeoutError({ timeoutMs: queueTimeoutMs }),
+              ),
+            queueTimeoutMs,
+          );
+        }
+
+        abortSignal?.addEventListener("abort", onAbort, { once: true });
+
+        queue.push(waiter);
+        drain();
+      });
+    },
+  };
+}
+
+function validateLimit(argument: string, value: number | undefined) {
+  // a bucket of less than 1 token never holds enough for a request:
+  if (value != null && !(value >= 1)) {
+    throw new InvalidArgumentError({
+      argument,
+      message: `${argument} must be at least 1, got ${value}`,
+    });
+  }
+}
+
+// timers are numbers outside of Node.js:
+function unrefTimer(timer: ReturnType<typeof setTimeout>) {
+  if (typeof timer === "object" && typeof timer.unref === "function") {
+    timer.unref();
+  }
+}
+
+/**
+ * Calls `release` once the stream has been fully read, has errored, or has
+ * been cancelled by the consumer.
+ */
+export function releaseOnClose<T>(
+  stream: ReadableStream<T>,
+  release: () => void,
+): ReadableStream<T> {
+  const reader = stream.getReader();
+
+  return new ReadableStream<T>({
+    async pull(controller) {
+      try {
+        const { done, value } = await reader.read();
+        if (done) {
+          release();
+          controller.close();
+        } else {
+          controller.enqueue(value);
+        }
+      } catch (error) {
+        release();
+        controller.error(error);
+      }
+    },
+    async cancel(reason) {
+      release();
+      await reader.cancel(reason);
+    },
+  });
+}
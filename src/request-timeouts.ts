@@ -0,0 +1,166 @@
+import { InflectionTimeoutError } from "./inflection-error";
+
+export interface InflectionTimeoutSettings {
+  /**
+   * Maximum duration of a single request attempt in milliseconds. For streaming
+   * calls it covers the time until the response headers are received.
+   */
+  timeoutMs?: number;
+
+  /**
+   * Maximum time in milliseconds between receiving the streaming response and
+   * its first chunk.
+   */
+  firstChunkTimeoutMs?: number;
+
+  /**
+   * Maximum time in milliseconds between two consecutive stream chunks.
+   */
+  chunkIdleTimeoutMs?: number;
+}
+
+export type RequestTimeout = {
+  /**
+   * Signal for the request. It is aborted when the caller's signal is aborted
+   * or with an `InflectionTimeoutError` when a timeout is exceeded.
+   */
+  signal: AbortSignal;
+
+  /**
+   * Returns the timeout error if the request was aborted by a timeout.
+   */
+  getTimeoutError(): InflectionTimeoutError | undefined;
+
+  /**
+   * Stops the request timeout and applies the first-chunk and idle timeouts
+   * to the stream instead.
+   */
+  watchStream<T>(stream: ReadableStream<T>): ReadableStream<T>;
+
+  /**
+   * Clears all timers and listeners.
+   */
+  dispose(): void;
+};
+
+/**
+ * Creates the timeout handling for one request attempt.
+ */
+export function createRequestTimeout({
+  abortSignal,
+  timeoutMs,
+  firstChunkTimeoutMs,
+  chunkIdleTimeoutMs,
+}: InflectionTimeoutSettings & {
+  abortSignal?: AbortSignal;
+}): RequestTimeout {
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const onAbort = () => controller.abort(abortSignal!.reason);
+
+  if (abortSignal?.aborted) {
+    onAbort();
+  } else {
+    abortSignal?.addEventListener("abort", onAbort, { once: true });
+  }
+
+  const startTimer = (
+    timeoutType: InflectionTimeoutError["timeoutType"],
+    ms: number | undefined,
+  ) => {
+    clearTimeout(timer);
+    timer =
+      ms != null
+        ? setTimeout(
+            () =>
+              controller.abort(
+                new InflectionTimeoutError({ timeoutType, timeoutMs: ms }),
+              ),
+            ms,
+          )
+        : undefined;
+  };
+
+  const getTimeoutError = () =>
+    InflectionTimeoutError.isInstance(controller.signal.reason)
+      ? controller.signal.reason
+      : undefined;
+
+  const dispose = () => {
+    clearTimeout(timer);
+    abortSignal?.removeEventListener("abort", onAbort);
+  };
+
+  startTimer("request", timeoutMs);
+
+  return {
+    signal: controller.signal,
+    getTimeoutError,
+    dispose,
+
+    watchStream<T>(stream: ReadableStream<T>) {
+      startTimer("first-chunk", firstChunkTimeoutMs);
+
+      const reader = stream.getReader();
+
+      // rejects as soon as the request is aborted, even when the underlying
+      // stream does not react to the abort signal:
+      const aborted = new Promise<never>((_, reject) => {
+        const rejectWithReason = () => reject(controller.signal.reason);
+        if (controller.signal.aborted) {
+          rejectWithReason();
+        } else {
+          controller.signal.addEventListener("abort", rejectWithReason, {
+            once: true,
+          });
+        }
+      });
+      aborted.catch(() => {});
+
+      let cancelled = false;
+
+      return new ReadableStream<T>({
+        // reads the stream eagerly instead of on pull, so the timeouts
+        // measure how long the server is idle and not how slowly the
+        // consumer reads:
+        start(streamController) {
+          (async () => {
+            try {
+              for (;;) {
+                const { done, value } = await Promise.race([
+                  reader.read(),
+                  aborted,
+                ]);
+
+                if (done) {
+                  dispose();
+                  if (!cancelled) {
+                    streamController.close();
+                  }
+                  return;
+                }
+
+                startTimer("chunk-idle", chunkIdleTimeoutMs);
+                if (!cancelled) {
+                  streamController.enqueue(value);
+                }
+              }
+            } catch (error) {
+              dispose();
+              reader.cancel().catch(() => {});
+              if (!cancelled) {
+                streamController.error(getTimeoutError() ?? error);
+              }
+            }
+          })();
+        },
+        async cancel(reason) {
+          cancelled = true;
+          dispose();
+          await reader.cancel(reason);
+        },
+      });
+    },
+  };
+}
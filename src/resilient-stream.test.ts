@@ -0,0 +1,142 @@
+import { expect, describe, it, vi } from "vitest";
+import { ParseResult } from "@ai-sdk/provider-utils";
+import { convertReadableStreamToArray } from "@ai-sdk/provider-utils/test";
+import { InflectionStreamInterruptedError } from "./inflection-error";
+import { createResilientStream } from "./resilient-stream";
+
+function chunk(idx: number, text: string): ParseResult<unknown> {
+  return {
+    success: true,
+    value: { created: 1, idx, text },
+    rawValue: { created: 1, idx, text },
+  };
+}
+
+function createStream(
+  chunks: ParseResult<unknown>[],
+  { fail = false }: { fail?: boolean } = {},
+): ReadableStream<ParseResult<unknown>> {
+  const remaining = [...chunks];
+  return new ReadableStream({
+    pull(controller) {
+      const next = remaining.shift();
+      if (next != null) {
+        controller.enqueue(next);
+      } else if (fail) {
+        controller.error(new TypeError("terminated"));
+      } else {
+        controller.close();
+      }
+    },
+  });
+}
+
+function getText(chunks: ParseResult<unknown>[]) {
+  return chunks
+    .map((c) => (c.success ? (c.value as { text: string }).text : ""))
+    .join("");
+}
+
+describe("createResilientStream", () => {
+  it("should pass through streams that complete", async () => {
+    const reconnect = vi.fn();
+
+    const chunks = await convertReadableStreamToArray(
+      createResilientStream({
+        stream: createStream([chunk(0, "Hello"), chunk(1, " there")]),
+        reconnect,
+      }),
+    );
+
+    expect(getText(chunks)).toBe("Hello there");
+    expect(reconnect).not.toHaveBeenCalled();
+  });
+
+  it("should reconnect with the partial text and skip repeated chunks", async () => {
+    const reconnect = vi
+      .fn()
+      .mockResolvedValue(
+        createStream([chunk(0, "Hello"), chunk(1, " there"), chunk(2, "!")]),
+      );
+
+    const chunks = await convertReadableStreamToArray(
+      createResilientStream({
+        stream: createStream([chunk(0, "Hello")], { fail: true }),
+        reconnect,
+      }),
+    );
+
+    expect(reconnect).toHaveBeenCalledWith("Hello");
+    expect(getText(chunks)).toBe("Hello there!");
+  });
+
+  it("should renumber a reconnected stream that restarts the idx", async () => {
+    const reconnect = vi
+      .fn()
+      .mockResolvedValue(createStream([chunk(0, " there"), chunk(1, "!")]));
+
+    const chunks = await convertReadableStreamToArray(
+      createResilientStream({
+        stream: createStream([chunk(0, "Hello")], { fail: true }),
+        reconnect,
+      }),
+    );
+
+    expect(
+      chunks.map((c) => (c.success ? (c.value as { idx: number }).idx : -1)),
+    ).toStrictEqual([0, 1, 2]);
+    expect(getText(chunks)).toBe("Hello there!");
+  });
+
+  it("should fail with the recovered text when reconnects are exhausted", async () => {
+    const reconnect = vi
+      .fn()
+      .mockResolvedValue(createStream([chunk(1, " there")], { fail: true }));
+
+    const stream = createResilientStream({
+      stream: createStream([chunk(0, "Hello")], { fail: true }),
+      maxReconnects: 1,
+      reconnect,
+    });
+
+    await expect(convertReadableStreamToArray(stream)).rejects.toSatisfy(
+      (error) =>
+        InflectionStreamInterruptedError.isInstance(error) &&
+        error.recoveredText === "Hello there" &&
+        error.reconnects === 1 &&
+        error.message ===
+          "Stream was interrupted after 1 reconnect attempt. Recovered 11 characters of text.",
+    );
+  });
+
+  it("should fail when the reconnect request fails", async () => {
+    const stream = createResilientStream({
+      stream: createStream([chunk(0, "Hello")], { fail: true }),
+      reconnect: () => Promise.reject(new Error("unavailable")),
+    });
+
+    await expect(convertReadableStreamToArray(stream)).rejects.toSatisfy(
+      (error) =>
+        InflectionStreamInterruptedError.isInstance(error) &&
+        error.recoveredText === "Hello" &&
+        (error.cause as Error).message === "unavailable",
+    );
+  });
+
+  it("should not reconnect after the caller aborted", async () => {
+    const abortController = new AbortController();
+    abortController.abort();
+    const reconnect = vi.fn();
+
+    const stream = createResilientStream({
+      stream: createStream([], { fail: true }),
+      reconnect,
+      abortSignal: abortController.signal,
+    });
+
+    await expect(convertReadableStreamToArray(stream)).rejects.toThrow(
+      "terminated",
+    );
+    expect(reconnect).not.toHaveBeenCalled();
+  });
+});
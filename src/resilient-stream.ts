@@ -0,0 +1,136 @@
+import { ParseResult } from "@ai-sdk/provider-utils";
+import { z } from "zod";
+import { InflectionStreamInterruptedError } from "./inflection-error";
+
+export type InflectionResilientStreamingSettings = {
+  /**
+   * Maximum number of reconnects per stream. Defaults to 2.
+   */
+  maxReconnects?: number;
+};
+
+const nativeChunkSchema = z.object({
+  idx: z.number(),
+  text: z.string().optional(),
+});
+
+/**
+ * Wraps a native Inflection event stream so that a dropped connection is
+ * re-established instead of failing the stream. `reconnect` re-issues the
+ * request with the text received so far as a prefix continuation. Chunks of
+ * the new stream that repeat an already received `idx` with the same text are
+ * skipped, and a new stream that restarts the `idx` numbering is renumbered
+ * to continue after the received chunks. When every reconnect fails, the
+ * stream errors with an `InflectionStreamInterruptedError` that contains the
+ * recovered text.
+ */
+export function createResilientStream({
+  stream,
+  maxReconnects = 2,
+  reconnect,
+  abortSignal,
+}: InflectionResilientStreamingSettings & {
+  stream: ReadableStream<ParseResult<unknown>>;
+  reconnect: (
+    partialText: string,
+  ) => PromiseLike<ReadableStream<ParseResult<unknown>>>;
+  abortSignal?: AbortSignal;
+}): ReadableStream<ParseResult<unknown>> {
+  let reader = stream.getReader();
+  let reconnects = 0;
+  let recoveredText = "";
+  const received = new Map<number, string>();
+  let highestIdx = -1;
+  // idx offset of a reconnected stream that restarts the numbering:
+  let idxOffset: number | undefined;
+
+  return new ReadableStream<ParseResult<unknown>>({
+    async pull(controller) {
+      for (;;) {
+        let result: ReadableStreamReadResult<ParseResult<unknown>>;
+
+        try {
+          result = await reader.read();
+        } catch (error) {
+          // user aborts are not disconnects:
+          if (abortSignal?.aborted) {
+            controller.error(error);
+            return;
+          }
+
+          if (reconnects >= maxReconnects) {
+            controller.error(
+              new InflectionStreamInterruptedError({
+                recoveredText,
+                reconnects,
+                cause: error,
+              }),
+            );
+            return;
+          }
+
+          reconnects++;
+
+          try {
+            reader = (await reconnect(recoveredText)).getReader();
+            idxOffset = undefined;
+          } catch (reconnectError) {
+            controller.error(
+              new InflectionStreamInterruptedError({
+                recoveredText,
+                reconnects,
+                cause: reconnectError,
+              }),
+            );
+            return;
+          }
+
+          continue;
+        }
+
+        if (result.done) {
+          controller.close();
+          return;
+        }
+
+        const chunk = result.value;
+        const parsed = chunk.success
+          ? nativeChunkSchema.safeParse(chunk.value)
+          : undefined;
+
+        if (chunk.success && parsed?.success) {
+          const { text = "" } = parsed.data;
+          let idx = parsed.data.idx;
+
+          if (reconnects > 0) {
+            // skip chunks that a reconnected stream repeats:
+            if (idxOffset == null && received.get(idx) === text) {
+              continue;
+            }
+
+            // continue the numbering after the received chunks:
+            idxOffset ??= idx <= highestIdx ? highestIdx + 1 - idx : 0;
+            idx += idxOffset;
+          }
+
+          received.set(idx, text);
+          highestIdx = Math.max(highestIdx, idx);
+          recoveredText += text;
+
+          controller.enqueue({
+            ...chunk,
+            value: { ...(chunk.value as Record<string, unknown>), idx },
+          });
+          return;
+        }
+
+        controller.enqueue(chunk);
+        return;
+      }
+    },
+
+    async cancel(reason) {
+      await reader.cancel(reason);
+    },
+  });
+}
@@ -0,0 +1,151 @@
+import { APICallError } from "@ai-sdk/provider";
+import { isAbortError } from "@ai-sdk/provider-utils";
+
+export interface InflectionRetrySettings {
+  /**
+   * Maximum number of attempts per call, including the first one.
+   * Defaults to 1 (no retries).
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay before the first retry in milliseconds. The delay doubles with
+   * every further retry. Defaults to 1000.
+   */
+  baseDelayMs?: number;
+
+  /**
+   * Upper bound for a single delay in milliseconds, including delays
+   * requested through `Retry-After` headers. Defaults to 60000.
+   */
+  maxDelayMs?: number;
+
+  /**
+   * Fraction (0 to 1) by which each delay is randomly varied to avoid
+   * synchronized retries. Defaults to 0.2.
+   */
+  jitter?: number;
+
+  /**
+   * HTTP status codes that trigger a retry. Connection errors are always retried.
+   * Defaults to `[408, 409, 429, 500, 502, 503, 504]`.
+   */
+  retryStatusCodes?: number[];
+}
+
+const DEFAULT_RETRY_STATUS_CODES = [408, 409, 429, 500, 502, 503, 504];
+
+/**
+ * Calls `fn` until it succeeds, the error is not retryable, or the maximum
+ * number of attempts is reached. Honors `Retry-After` response headers and
+ * stops waiting as soon as the abort signal fires.
+ * @returns The result of the successful attempt and the number of attempts made
+ */
+export async function retryWithExponentialBackoff<T>(
+  fn: (attempt: number) => PromiseLike<T>,
+  {
+    maxAttempts = 1,
+    baseDelayMs = 1000,
+    maxDelayMs = 60000,
+    jitter = 0.2,
+    retryStatusCodes = DEFAULT_RETRY_STATUS_CODES,
+    abortSignal,
+  }: InflectionRetrySettings & { abortSignal?: AbortSignal } = {},
+): Promise<{ value: T; attempts: number }> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return { value: await fn(attempt), attempts: attempt };
+    } catch (error) {
+      if (
+        attempt >= maxAttempts ||
+        abortSignal?.aborted ||
+        !isRetryableError(error, retryStatusCodes)
+      ) {
+        throw error;
+      }
+
+      const backoffDelay = baseDelayMs * 2 ** (attempt - 1);
+      const retryAfterDelay = getRetryAfterDelay(error);
+
+      await abortableDelay(
+        Math.min(
+          retryAfterDelay ?? applyJitter(backoffDelay, jitter),
+          maxDelayMs,
+        ),
+        abortSignal,
+      );
+    }
+  }
+}
+
+function isRetryableError(error: unknown, retryStatusCodes: number[]) {
+  if (isAbortError(error) || !APICallError.isInstance(error)) {
+    return false;
+  }
+
+  // connection errors have no status code:
+  if (error.statusCode == null) {
+    return error.isRetryable;
+  }
+
+  return retryStatusCodes.includes(error.statusCode);
+}
+
+/**
+ * Reads the delay requested by the server from the `retry-after-ms` or
+ * `retry-after` (seconds or HTTP date) response headers.
+ */
+export function getRetryAfterDelay(error: unknown): number | undefined {
+  if (!APICallError.isInstance(error) || error.responseHeaders == null) {
+    return undefined;
+  }
+
+  const headers = error.responseHeaders;
+
+  const retryAfterMs = parseFloat(headers["retry-after-ms"] ?? "");
+  if (!Number.isNaN(retryAfterMs) && retryAfterMs >= 0) {
+    return retryAfterMs;
+  }
+
+  const retryAfter = headers["retry-after"];
+  if (retryAfter == null) {
+    return undefined;
+  }
+
+  const seconds = parseFloat(retryAfter);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(retryAfter);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+function applyJitter(delayMs: number, jitter: number) {
+  return delayMs * (1 + (Math.random() * 2 - 1) * jitter);
+}
+
+function abortableDelay(delayMs: number, abortSignal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    if (abortSignal?.aborted) {
+      reject(abortSignal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(abortSignal!.reason);
+    };
+
+    const timeout = setTimeout(() => {
+      abortSignal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, delayMs);
+
+    abortSignal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
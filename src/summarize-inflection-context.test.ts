@@ -0,0 +1,138 @@
+import { expect, describe, it, vi } from "vitest";
+import { InflectionContext } from "./convert-to-inflection-chat-messages";
+import {
+  createInMemoryInflectionMemoryStore,
+  summarizeInflectionContext,
+} from "./summarize-inflection-context";
+
+function createConversation(length: number): InflectionContext {
+  return [
+    { type: "Instruction", text: "You are Pi." },
+    ...Array.from({ length }, (_, i): InflectionContext[number] => ({
+      type: i % 2 === 0 ? "Human" : "AI",
+      text: `message ${i}`,
+    })),
+  ];
+}
+
+describe("summarizeInflectionContext", () => {
+  it("should keep short conversations unchanged", async () => {
+    const summarize = vi.fn();
+    const context = createConversation(4);
+
+    const result = await summarizeInflectionContext(context, {
+      maxMessages: 4,
+      store: createInMemoryInflectionMemoryStore(),
+      summarize,
+    });
+
+    expect(result).toStrictEqual(context);
+    expect(summarize).not.toHaveBeenCalled();
+  });
+
+  it("should replace older turns with a summary instruction", async () => {
+    const summarize = vi.fn().mockResolvedValue("The user said hi.");
+    const context = createConversation(6);
+
+    const result = await summarizeInflectionContext(context, {
+      maxMessages: 4,
+      keepRecentMessages: 2,
+      store: createInMemoryInflectionMemoryStore(),
+      summarize,
+    });
+
+    expect(summarize).toHaveBeenCalledWith(context.slice(1, 5), undefined);
+    expect(result).toStrictEqual([
+      context[0],
+      {
+        type: "Instruction",
+        text: "Summary of the earlier conversation:\nThe user said hi.",
+      },
+      context[5],
+      context[6],
+    ]);
+  });
+
+  it("should reuse the cached summary and extend it when needed", async () => {
+    const store = createInMemoryInflectionMemoryStore();
+    const summarize = vi
+      .fn()
+      .mockResolvedValueOnce("first summary")
+      .mockResolvedValueOnce("second summary");
+    const options = {
+      maxMessages: 4,
+      keepRecentMessages: 2,
+      conversationId: "conversation-1",
+      store,
+      summarize,
+    };
+
+    await summarizeInflectionContext(createConversation(6), options);
+    await summarizeInflectionContext(createConversation(8), options);
+
+    expect(summarize).toHaveBeenCalledTimes(1);
+
+    const context = createConversation(9);
+    const result = await summarizeInflectionContext(context, options);
+
+    expect(summarize).toHaveBeenCalledTimes(2);
+    expect(summarize).toHaveBeenLastCalledWith(
+      context.slice(5, 8),
+      "first summary",
+    );
+    expect(result).toStrictEqual([
+      context[0],
+      {
+        type: "Instruction",
+        text: "Summary of the earlier conversation:\nsecond summary",
+      },
+      context[8],
+      context[9],
+    ]);
+  });
+
+  it("should summarize again when the history was edited", async () => {
+    const store = createInMemoryInflectionMemoryStore();
+    const summarize = vi.fn().mockResolvedValue("summary");
+    const options = { maxMessages: 4, conversationId: "c", store, summarize };
+
+    await summarizeInflectionContext(createConversation(6), options);
+
+    const edited = createConversation(6);
+    edited[1] = { type: "Human", text: "edited" };
+    await summarizeInflectionContext(edited, options);
+
+    expect(summarize).toHaveBeenCalledTimes(2);
+    expect(summarize).toHaveBeenLastCalledWith(edited.slice(1, 5), undefined);
+  });
+
+  it("should not separate tool results from their tool call", async () => {
+    const summarize = vi.fn().mockResolvedValue("summary");
+    const context: InflectionContext = [
+      { type: "Human", text: "weather?" },
+      {
+        type: "AI",
+        text: "",
+        tool_calls: [
+          {
+            id: "call-1",
+            type: "function",
+            function: { name: "weather", arguments: "{}" },
+          },
+        ],
+      },
+      { type: "Tool", text: "sunny", tool_call_id: "call-1" },
+      { type: "AI", text: "It is sunny." },
+    ];
+
+    const result = await summarizeInflectionContext(context, {
+      maxMessages: 2,
+      keepRecentMessages: 2,
+      store: createInMemoryInflectionMemoryStore(),
+      summarize,
+    });
+
+    expect(summarize).toHaveBeenCalledWith(context.slice(0, 1), undefined);
+    expect(result.slice(1)).toStrictEqual(context.slice(1));
+  });
+});
@@ -0,0 +1,228 @@
+import {
+  InflectionContext,
+  InflectionMessage,
+} from "./convert-to-inflection-chat-messages";
+import { InflectionChatModelId } from "./inflection-chat-settings";
+
+export type InflectionMemorySettings = {
+  /**
+   * Maximum number of `Human`, `AI` and `Tool` messages that are sent as is.
+   * When the conversation grows beyond it, the older messages are summarized
+   * into a single `Instruction` message.
+   */
+  maxMessages: number;
+
+  /**
+   * Number of recent messages that are kept when older messages are
+   * summarized. Defaults to half of `maxMessages`.
+   */
+  keepRecentMessages?: number;
+
+  /**
+   * Model that writes the summaries, e.g. a cheaper one. Defaults to the model
+   * of the call.
+   */
+  modelId?: InflectionChatModelId;
+
+  /**
+   * Maximum number of tokens of a summary. Defaults to 512.
+   */
+  maxSummaryTokens?: number;
+};
+
+export type InflectionConversationSummary = {
+  /** The summary text. */
+  summary: string;
+  /** Number of conversation messages covered by the summary. */
+  summarizedMessages: number;
+  /** Fingerprint of the summarized messages, used to detect edited histories. */
+  fingerprint: string;
+};
+
+/**
+ * Stores conversation summaries by conversation ID.
+ */
+export interface InflectionMemoryStore {
+  get(
+    conversationId: string,
+  ):
+    | PromiseLike<InflectionConversationSummary | undefined>
+    | InflectionConversationSummary
+    | undefined;
+  set(
+    conversationId: string,
+    summary: InflectionConversationSummary,
+  ): PromiseLike<void> | void;
+}
+
+/**
+ * Creates an in-memory summary store that keeps the most recently used
+ * conversations.
+ */
+export function createInMemoryInflectionMemoryStore({
+  maxConversations = 1000,
+}: {
+  maxConversations?: number;
+} = {}): InflectionMemoryStore {
+  const summaries = new Map<string, InflectionConversationSummary>();
+
+  return {
+    get(conversationId) {
+      const summary = summaries.get(conversationId);
+      if (summary != null) {
+        // move to the end to mark the conversation as recently used:
+        summaries.delete(conversationId);
+        summaries.set(conversationId, summary);
+      }
+      return summary;
+    },
+
+    set(conversationId, summary) {
+      summaries.delete(conversationId);
+      summaries.set(conversationId, summary);
+
+      if (summaries.size > maxConversations) {
+        summaries.delete(summaries.keys().next().value!);
+      }
+    },
+  };
+}
+
+/**
+ * Replaces the older conversation messages with a rolling summary. The summary
+ * is cached per conversation and only extended when the unsummarized part of
+ * the conversation exceeds `maxMessages` again.
+ * @param context The converted context
+ * @param options.conversationId Cache key of the conversation. Defaults to a fingerprint of its first message
+ * @param options.summarize Summarizes messages, extending a previous summary when given
+ * @returns The context with the summary instruction
+ */
+export async function summarizeInflectionContext(
+  context: InflectionContext,
+  {
+    maxMessages,
+    keepRecentMessages = Math.floor(maxMessages / 2),
+    conversationId,
+    store,
+    summarize,
+  }: Pick<InflectionMemorySettings, "maxMessages" | "keepRecentMessages"> & {
+    conversationId?: string;
+    store: InflectionMemoryStore;
+    summarize: (
+      messages: InflectionMessage[],
+      previousSummary: string | undefined,
+    ) => PromiseLike<string>;
+  },
+): Promise<InflectionContext> {
+  const conversation = context.filter(
+    (message) => message.type !== "Instruction",
+  );
+
+  if (conversation.length === 0) {
+    return context;
+  }
+
+  const key = conversationId ?? fingerprint([conversation[0]]);
+
+  const cached = await store.get(key);
+  let summary =
+    cached != null &&
+    cached.summarizedMessages <= conversation.length &&
+    cached.fingerprint ===
+      fingerprint(conversation.slice(0, cached.summarizedMessages))
+      ? cached
+      : undefined;
+
+  const summarizedMessages = summary?.summarizedMessages ?? 0;
+
+  if (conversation.length - summarizedMessages > maxMessages) {
+    let end = conversation.length - keepRecentMessages;
+
+    // keep tool results together with the message that called the tools:
+    while (end > summarizedMessages && conversation[end]?.type === "Tool") {
+      end--;
+    }
+
+    if (end > summarizedMessages) {
+      summary = {
+        summary: await summarize(
+          conversation.slice(summarizedMessages, end),
+          summary?.summary,
+        ),
+        summarizedMessages: end,
+        fingerprint: fingerprint(conversation.slice(0, end)),
+      };
+
+      await store.set(key, summary);
+    }
+  }
+
+  if (summary == null) {
+    return context;
+  }
+
+  const summarized = new Set(conversation.slice(0, summary.summarizedMessages));
+  const result: InflectionContext = [];
+  let summaryInserted = false;
+
+  for (const message of context) {
+    if (!summarized.has(message)) {
+      result.push(message);
+    } else if (!summaryInserted) {
+      result.push({
+        type: "Instruction",
+        text: `Summary of the earlier conversation:\n${summary.summary}`,
+      });
+      summaryInserted = true;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Builds the context of a summarization request.
+ */
+export function createSummaryContext(
+  messages: InflectionMessage[],
+  previousSummary: string | undefined,
+): InflectionContext {
+  const transcript = messages
+    .map((message) => {
+      const toolCalls = (message.tool_calls ?? [])
+        .map(
+          (call) => `[calls ${call.function.name}(${call.function.arguments})]`,
+        )
+        .join(" ");
+      return `${message.type}: ${[message.text, toolCalls].filter(Boolean).join(" ")}`;
+    })
+    .join("\n");
+
+  return [
+    {
+      type: "Instruction",
+      text:
+        "Summarize the conversation for your own memory. Keep facts, names, " +
+        "decisions, open questions and the user's preferences. Reply with the " +
+        "summary only.",
+    },
+    {
+      type: "Human",
+      text:
+        previousSummary != null
+          ? `Summary so far:\n${previousSummary}\n\nContinued conversation:\n${transcript}`
+          : transcript,
+    },
+  ];
+}
+
+// FNV-1a hash of the serialized messages:
+function fingerprint(messages: InflectionMessage[]): string {
+  const text = JSON.stringify(messages);
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return `${messages.length}:${(hash >>> 0).toString(16)}`;
+}
@@ -0,0 +1,116 @@
+import { expect, describe, it } from "vitest";
+import { createToolCallAccumulator } from "./tool-call-accumulator";
+
+describe("createToolCallAccumulator", () => {
+  it("should assemble arguments that are split across fragments", () => {
+    const toolCalls = createToolCallAccumulator();
+
+    expect(
+      toolCalls.append({ key: 0, id: "call-1", name: "get_weather" }),
+    ).toStrictEqual([]);
+    expect(toolCalls.append({ key: 0, arguments: '{"location' })).toStrictEqual(
+      [
+        {
+          type: "tool-call-delta",
+          toolCallType: "function",
+          toolCallId: "call-1",
+          toolName: "get_weather",
+          argsTextDelta: '{"location',
+        },
+      ],
+    );
+    expect(
+      toolCalls.append({ key: 0, arguments: '": "Paris"}' }),
+    ).toStrictEqual([
+      {
+        type: "tool-call-delta",
+        toolCallType: "function",
+        toolCallId: "call-1",
+        toolName: "get_weather",
+        argsTextDelta: '": "Paris"}',
+      },
+      {
+        type: "tool-call",
+        toolCallType: "function",
+        toolCallId: "call-1",
+        toolName: "get_weather",
+        args: '{"location": "Paris"}',
+      },
+    ]);
+    expect(toolCalls.flush()).toStrictEqual([]);
+  });
+
+  it("should keep parallel tool calls apart by key", () => {
+    const toolCalls = createToolCallAccumulator();
+
+    toolCalls.append({ key: 0, id: "call-1", name: "a", arguments: '{"x":' });
+    toolCalls.append({ key: 1, id: "call-2", name: "b", arguments: '{"y":' });
+    const parts = [
+      ...toolCalls.append({ key: 1, arguments: "2}" }),
+      ...toolCalls.append({ key: 0, arguments: "1}" }),
+    ];
+
+    expect(parts.filter((part) => part.type === "tool-call")).toStrictEqual([
+      {
+        type: "tool-call",
+        toolCallType: "function",
+        toolCallId: "call-2",
+        toolName: "b",
+        args: '{"y":2}',
+      },
+      {
+        type: "tool-call",
+        toolCallType: "function",
+        toolCallId: "call-1",
+        toolName: "a",
+        args: '{"x":1}',
+      },
+    ]);
+  });
+
+  it("should complete pending calls on flush", () => {
+    const toolCalls = createToolCallAccumulator();
+
+    toolCalls.append({ key: 0, id: "call-1", name: "no_args" });
+    toolCalls.append({ key: 1, id: "call-2", name: "broken", arguments: "{" });
+
+    expect(toolCalls.flush()).toStrictEqual([
+      {
+        type: "tool-call",
+        toolCallType: "function",
+        toolCallId: "call-1",
+        toolName: "no_args",
+        args: "{}",
+      },
+      {
+        type: "tool-call",
+        toolCallType: "function",
+        toolCallId: "call-2",
+        toolName: "broken",
+        args: "{",
+      },
+    ]);
+    expect(toolCalls.flush()).toStrictEqual([]);
+  });
+
+  it("should ignore repeated fragments of a completed call", () => {
+    const toolCalls = createToolCallAccumulator();
+
+    toolCalls.append({
+      key: "call-1",
+      id: "call-1",
+      name: "a",
+      arguments: "{}",
+    });
+
+    expect(
+      toolCalls.append({
+        key: "call-1",
+        id: "call-1",
+        name: "a",
+        arguments: "{}",
+      }),
+    ).toStrictEqual([]);
+    expect(toolCalls.hasToolCalls()).toBe(true);
+  });
+});
@@ -0,0 +1,126 @@
+import { LanguageModelV1StreamPart } from "@ai-sdk/provider";
+import { generateId, isParsableJson } from "@ai-sdk/provider-utils";
+
+export type ToolCallFragment = {
+  /**
+   * Identifies the tool call across chunks, e.g. the `index` of an
+   * OpenAI-compatible tool call delta.
+   */
+  key: string | number;
+  /** Only present in the first fragment of OpenAI-compatible streams. */
+  id?: string;
+  /** Only present in the first fragment of OpenAI-compatible streams. */
+  name?: string;
+  arguments?: string;
+};
+
+export type ToolCallAccumulator = {
+  /**
+   * Buffers a tool call fragment.
+   * @returns A `tool-call-delta` part for the arguments fragment, followed by
+   * a `tool-call` part when the buffered arguments form complete JSON
+   */
+  append(fragment: ToolCallFragment): LanguageModelV1StreamPart[];
+
+  /**
+   * Completes all pending tool calls, e.g. on `finish_reason: tool_calls` or
+   * at the end of the stream.
+   * @returns A `tool-call` part per pending call. Its arguments are the
+   * buffered JSON text, which can be invalid for calls that were cut off
+   */
+  flush(): LanguageModelV1StreamPart[];
+
+  /**
+   * Whether any tool call was received.
+   */
+  hasToolCalls(): boolean;
+};
+
+type BufferedToolCall = {
+  id: string;
+  name: string;
+  arguments: string;
+  completed: boolean;
+};
+
+/**
+ * Creates the per-stream buffer that assembles streamed tool calls from their
+ * fragments.
+ */
+export function createToolCallAccumulator(): ToolCallAccumulator {
+  const toolCalls = new Map<string | number, BufferedToolCall>();
+
+  const complete = (toolCall: BufferedToolCall): LanguageModelV1StreamPart => {
+    toolCall.completed = true;
+
+    return {
+      type: "tool-call",
+      toolCallType: "function",
+      toolCallId: toolCall.id,
+      toolName: toolCall.name,
+      args: toolCall.arguments || "{}",
+    };
+  };
+
+  return {
+    append(fragment) {
+      let toolCall = toolCalls.get(fragment.key);
+
+      // trailing fragments of a completed call, e.g. whitespace:
+      if (
+        toolCall?.completed &&
+        (fragment.id == null || fragment.id === toolCall.id)
+      ) {
+        return [];
+      }
+
+      if (toolCall == null || toolCall.completed) {
+        toolCall = {
+          id: fragment.id ?? generateId(),
+          name: fragment.name ?? "",
+          arguments: "",
+          completed: false,
+        };
+        toolCalls.set(fragment.key, toolCall);
+      } else {
+        toolCall.id = fragment.id ?? toolCall.id;
+        toolCall.name = fragment.name ?? toolCall.name;
+      }
+
+      const parts: LanguageModelV1StreamPart[] = [];
+
+      if (fragment.arguments) {
+        toolCall.arguments += fragment.arguments;
+        parts.push({
+          type: "tool-call-delta",
+          toolCallType: "function",
+          toolCallId: toolCall.id,
+          toolName: toolCall.name,
+          argsTextDelta: fragment.arguments,
+        });
+      }
+
+      if (isParsableJson(toolCall.arguments)) {
+        parts.push(complete(toolCall));
+      }
+
+      return parts;
+    },
+
+    flush() {
+      const parts: LanguageModelV1StreamPart[] = [];
+
+      toolCalls.forEach((toolCall) => {
+        if (!toolCall.completed) {
+          parts.push(complete(toolCall));
+        }
+      });
+
+      return parts;
+    },
+
+    hasToolCalls() {
+      return toolCalls.size > 0;
+    },
+  };
+}
@@ -0,0 +1,67 @@
+import { expect, describe, it } from "vitest";
+import { validateJsonSchema } from "./validate-json-schema";
+
+const schema = {
+  type: "object",
+  properties: {
+    location: { type: "string", minLength: 1 },
+    unit: { type: "string", enum: ["celsius", "fahrenheit"] },
+    days: { type: "integer", minimum: 1, maximum: 7 },
+    tags: { type: "array", items: { type: "string" } },
+  },
+  required: ["location"],
+  additionalProperties: false,
+};
+
+describe("validateJsonSchema", () => {
+  it("should accept valid values", () => {
+    expect(
+      validateJsonSchema(
+        { location: "Paris", unit: "celsius", days: 3, tags: ["a"] },
+        schema,
+      ),
+    ).toStrictEqual([]);
+  });
+
+  it("should report type, enum, bound and item errors with their path", () => {
+    expect(
+      validateJsonSchema(
+        { location: "", unit: "kelvin", days: 1.5, tags: ["a", 2] },
+        schema,
+      ),
+    ).toStrictEqual([
+      "location must have at least 1 characters",
+      'unit must be one of "celsius", "fahrenheit"',
+      "days must be of type integer",
+      "tags[1] must be of type string",
+    ]);
+  });
+
+  it("should report missing required and unknown properties", () => {
+    expect(validateJsonSchema({ city: "Paris" }, schema)).toStrictEqual([
+      "location is required",
+      "city is not an allowed property",
+    ]);
+  });
+
+  it("should support nullable types and combinators", () => {
+    const nullable = { type: ["string", "null"] };
+    expect(validateJsonSchema(null, nullable)).toStrictEqual([]);
+    expect(validateJsonSchema(1, nullable)).toStrictEqual([
+      "value must be of type string or null",
+    ]);
+
+    const anyOf = { anyOf: [{ type: "number" }, { const: "auto" }] };
+    expect(validateJsonSchema("auto", anyOf)).toStrictEqual([]);
+    expect(validateJsonSchema("manual", anyOf)).toStrictEqual([
+      "value must match a schema in anyOf",
+    ]);
+  });
+
+  it("should accept any value for boolean true schemas", () => {
+    expect(validateJsonSchema({ anything: [1] }, true)).toStrictEqual([]);
+    expect(validateJsonSchema(1, false)).toStrictEqual([
+      "value is not allowed",
+    ]);
+  });
+});
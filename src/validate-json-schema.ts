@@ -0,0 +1,223 @@
+/**
+ * The JSON Schema keywords that `validateJsonSchema` checks.
+ */
+export type JsonSchema =
+  | boolean
+  | {
+      type?: string | string[];
+      enum?: unknown[];
+      const?: unknown;
+      properties?: Record<string, JsonSchema>;
+      required?: string[];
+      additionalProperties?: JsonSchema;
+      items?: JsonSchema | JsonSchema[];
+      additionalItems?: JsonSchema;
+      anyOf?: JsonSchema[];
+      oneOf?: JsonSchema[];
+      allOf?: JsonSchema[];
+      minimum?: number;
+      maximum?: number;
+      exclusiveMinimum?: number;
+      exclusiveMaximum?: number;
+      minLength?: number;
+      maxLength?: number;
+      minItems?: number;
+      maxItems?: number;
+    };
+
+type JsonSchemaObject = Exclude<JsonSchema, boolean>;
+
+/**
+ * Validates a value against the subset of JSON Schema that tool parameters
+ * use: `type`, `enum`, `const`, object `properties`, `required` and
+ * `additionalProperties`, array `items`, `anyOf`, `oneOf`, `allOf`, and the
+ * numeric, string and array bounds. Other keywords, e.g. `$ref` or `format`,
+ * are not checked.
+ * @returns The validation errors, empty when the value is valid
+ */
+export function validateJsonSchema(
+  value: unknown,
+  schema: JsonSchema,
+  path = "",
+): string[] {
+  if (schema === true) {
+    return [];
+  }
+
+  const location = path === "" ? "value" : path;
+
+  if (schema === false) {
+    return [`${location} is not allowed`];
+  }
+
+  if (schema.type != null) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => hasType(value, type))) {
+      return [`${location} must be of type ${types.join(" or ")}`];
+    }
+  }
+
+  const errors: string[] = [];
+
+  if (
+    schema.enum != null &&
+    !schema.enum.some((option) => isEqual(option, value))
+  ) {
+    errors.push(
+      `${location} must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(", ")}`,
+    );
+  }
+
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    errors.push(`${location} must be ${JSON.stringify(schema.const)}`);
+  }
+
+  if (typeof value === "number") {
+    errors.push(...validateNumber(value, schema, location));
+  }
+
+  if (typeof value === "string") {
+    if (schema.minLength != null && value.length < schema.minLength) {
+      errors.push(
+        `${location} must have at least ${schema.minLength} characters`,
+      );
+    }
+    if (schema.maxLength != null && value.length > schema.maxLength) {
+      errors.push(
+        `${location} must have at most ${schema.maxLength} characters`,
+      );
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems != null && value.length < schema.minItems) {
+      errors.push(`${location} must have at least ${schema.minItems} items`);
+    }
+    if (schema.maxItems != null && value.length > schema.maxItems) {
+      errors.push(`${location} must have at most ${schema.maxItems} items`);
+    }
+
+    const items = schema.items;
+    if (items != null) {
+      value.forEach((item, index) => {
+        const itemSchema = Array.isArray(items)
+          ? (items[index] ?? schema.additionalItems ?? true)
+          : items;
+        errors.push(
+          ...validateJsonSchema(item, itemSchema, `${path}[${index}]`),
+        );
+      });
+    }
+  }
+
+  if (isObject(value)) {
+    errors.push(...validateObject(value, schema, path));
+  }
+
+  for (const subschema of schema.allOf ?? []) {
+    errors.push(...validateJsonSchema(value, subschema, path));
+  }
+
+  if (
+    schema.anyOf != null &&
+    !schema.anyOf.some(
+      (subschema) => validateJsonSchema(value, subschema, path).length === 0,
+    )
+  ) {
+    errors.push(`${location} must match a schema in anyOf`);
+  }
+
+  if (
+    schema.oneOf != null &&
+    schema.oneOf.filter(
+      (subschema) => validateJsonSchema(value, subschema, path).length === 0,
+    ).length !== 1
+  ) {
+    errors.push(`${location} must match exactly one schema in oneOf`);
+  }
+
+  return errors;
+}
+
+function validateObject(
+  value: Record<string, unknown>,
+  schema: JsonSchemaObject,
+  path: string,
+): string[] {
+  const errors: string[] = [];
+  const properties = schema.properties ?? {};
+
+  for (const key of schema.required ?? []) {
+    if (value[key] === undefined) {
+      errors.push(`${joinPath(path, key)} is required`);
+    }
+  }
+
+  for (const [key, propertyValue] of Object.entries(value)) {
+    const propertySchema =
+      properties[key] ?? schema.additionalProperties ?? true;
+
+    if (propertySchema === false && properties[key] == null) {
+      errors.push(`${joinPath(path, key)} is not an allowed property`);
+      continue;
+    }
+
+    errors.push(
+      ...validateJsonSchema(propertyValue, propertySchema, joinPath(path, key)),
+    );
+  }
+
+  return errors;
+}
+
+function validateNumber(
+  value: number,
+  schema: JsonSchemaObject,
+  location: string,
+): string[] {
+  const errors: string[] = [];
+
+  if (schema.minimum != null && value < schema.minimum) {
+    errors.push(`${location} must be >= ${schema.minimum}`);
+  }
+  if (schema.maximum != null && value > schema.maximum) {
+    errors.push(`${location} must be <= ${schema.maximum}`);
+  }
+  if (schema.exclusiveMinimum != null && value <= schema.exclusiveMinimum) {
+    errors.push(`${location} must be > ${schema.exclusiveMinimum}`);
+  }
+  if (schema.exclusiveMaximum != null && value >= schema.exclusiveMaximum) {
+    errors.push(`${location} must be < ${schema.exclusiveMaximum}`);
+  }
+
+  return errors;
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case "null":
+      return value === null;
+    case "array":
+      return Array.isArray(value);
+    case "object":
+      return isObject(value);
+    case "integer":
+      return Number.isInteger(value);
+    case "number":
+      return typeof value === "number" && Number.isFinite(value);
+    default:
+      return typeof value === type;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function joinPath(path: string, key: string): string {
+  return path === "" ? key : `${path}.${key}`;
+}